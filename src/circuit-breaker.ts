@@ -0,0 +1,132 @@
+import { TelegramCircuitBreakerStats, TelegramCircuitState } from './types';
+
+interface CircuitBreakerOptions {
+  /** Количество неудач подряд до размыкания; 0 отключает breaker. */
+  threshold: number;
+  resetMs: number;
+  onStateChange?: (
+    state: TelegramCircuitState,
+    previousState: TelegramCircuitState,
+    stats: TelegramCircuitBreakerStats,
+  ) => void;
+  now?: () => number;
+}
+
+/**
+ * Circuit breaker для обращений к Telegram.
+ * После threshold неудач подряд размыкается и отклоняет запросы, пока не истечёт resetMs;
+ * затем пропускает один пробный запрос (halfOpen): успех замыкает цепь, неудача снова размыкает,
+ * а нейтральный ответ оставляет halfOpen и разрешает следующую пробу.
+ */
+export class CircuitBreaker {
+  private readonly threshold: number;
+  private readonly resetMs: number;
+  private readonly onStateChange?: CircuitBreakerOptions['onStateChange'];
+  private readonly now: () => number;
+  private state: TelegramCircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private rejectedRequests = 0;
+  private openCount = 0;
+  private openedAt?: number;
+  private isProbeInFlight = false;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.threshold = options.threshold;
+    this.resetMs = options.resetMs;
+    this.onStateChange = options.onStateChange;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Проверяет, можно ли сейчас обратиться к Telegram. В состоянии open по истечении resetMs
+   * переводит breaker в halfOpen и разрешает ровно один пробный запрос.
+   *
+   * @returns True, если запрос можно отправлять.
+   */
+  tryAcquire(): boolean {
+    if (this.threshold <= 0 || this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && this.now() - (this.openedAt ?? 0) >= this.resetMs) {
+      this.transition('halfOpen');
+    }
+
+    if (this.state === 'halfOpen' && !this.isProbeInFlight) {
+      this.isProbeInFlight = true;
+      return true;
+    }
+
+    this.rejectedRequests += 1;
+    return false;
+  }
+
+  /**
+   * Фиксирует успешное обращение: Telegram доступен, счётчик неудач сбрасывается.
+   */
+  recordSuccess(): void {
+    if (this.threshold <= 0) {
+      return;
+    }
+    this.consecutiveFailures = 0;
+    this.isProbeInFlight = false;
+    if (this.state !== 'closed') {
+      this.openedAt = undefined;
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * Фиксирует нейтральный исход (429 или окончательный отказ 4xx): Telegram ответил,
+   * но о восстановлении связи это не говорит. Освобождает слот пробного запроса,
+   * не меняя состояние и счётчик неудач.
+   */
+  releaseProbe(): void {
+    this.isProbeInFlight = false;
+  }
+
+  /**
+   * Фиксирует временную ошибку и при необходимости размыкает цепь.
+   */
+  recordFailure(): void {
+    if (this.threshold <= 0) {
+      return;
+    }
+    this.consecutiveFailures += 1;
+    this.totalFailures += 1;
+    this.isProbeInFlight = false;
+    if (this.state === 'halfOpen' || this.consecutiveFailures >= this.threshold) {
+      this.open();
+    }
+  }
+
+  getStats(): TelegramCircuitBreakerStats {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      rejectedRequests: this.rejectedRequests,
+      openCount: this.openCount,
+      openedAt: this.openedAt,
+      nextProbeAt:
+        this.state === 'open' && this.openedAt !== undefined
+          ? this.openedAt + this.resetMs
+          : undefined,
+    };
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    if (this.state !== 'open') {
+      this.openCount += 1;
+      this.transition('open');
+    }
+  }
+
+  private transition(state: TelegramCircuitState): void {
+    const previousState = this.state;
+    this.state = state;
+    this.onStateChange?.(state, previousState, this.getStats());
+  }
+}
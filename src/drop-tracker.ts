@@ -0,0 +1,76 @@
+import { TelegramDropStats } from './types';
+
+/**
+ * Отброшенные записи одного target с момента последней сводки.
+ */
+export interface DropSummary {
+  count: number;
+  byLevel: Record<string, number>;
+  firstAt: number;
+  lastAt: number;
+}
+
+/**
+ * Учитывает записи, отброшенные очередями доставки при переполнении:
+ * общие счётчики по уровню и target, а также окно для сводки каждого target.
+ */
+export class DropTracker {
+  private readonly now: () => number;
+  private readonly byLevel = new Map<string, number>();
+  private readonly byTarget = new Map<string, number>();
+  private readonly pending = new Map<string, DropSummary>();
+  private total = 0;
+  private lastDropAt?: number;
+
+  constructor(now: () => number = () => Date.now()) {
+    this.now = now;
+  }
+
+  /**
+   * Фиксирует отброшенную запись.
+   *
+   * @param targetKey Ключ target.
+   * @param level Название уровня записи.
+   */
+  record(targetKey: string, level: string): void {
+    const at = this.now();
+    this.total += 1;
+    this.lastDropAt = at;
+    increment(this.byLevel, level);
+    increment(this.byTarget, targetKey);
+
+    let summary = this.pending.get(targetKey);
+    if (!summary) {
+      summary = { count: 0, byLevel: {}, firstAt: at, lastAt: at };
+      this.pending.set(targetKey, summary);
+    }
+    summary.count += 1;
+    summary.byLevel[level] = (summary.byLevel[level] ?? 0) + 1;
+    summary.lastAt = at;
+  }
+
+  /**
+   * Забирает накопленную сводку target и начинает новое окно.
+   *
+   * @param targetKey Ключ target.
+   * @returns Сводка или undefined, если с прошлого раза ничего не отброшено.
+   */
+  take(targetKey: string): DropSummary | undefined {
+    const summary = this.pending.get(targetKey);
+    this.pending.delete(targetKey);
+    return summary;
+  }
+
+  getStats(): TelegramDropStats {
+    return {
+      total: this.total,
+      byLevel: Object.fromEntries(this.byLevel),
+      byTarget: Object.fromEntries(this.byTarget),
+      lastDropAt: this.lastDropAt,
+    };
+  }
+}
+
+function increment(counters: Map<string, number>, key: string): void {
+  counters.set(key, (counters.get(key) ?? 0) + 1);
+}
@@ -1,10 +1,15 @@
 import {
   escapeHtml,
+  escapeMarkdownV2,
+  escapeMarkdownV2Code,
+  escapeMarkdownV2Url,
   formatTimestamp,
+  redactHttpHeaders,
   redactSensitiveData,
-  truncateHtml,
-  truncateText,
+  truncateFormattedText,
 } from './utils';
+import { DropSummary } from './drop-tracker';
+import { buildSourceUrl, extractSourceLocations, trimStackTrace } from './stack-trace';
 import { FormatMessageInput, FormatMessageResult, NormalizedOptions, PinoLog } from './types';
 
 const LEVEL_LABELS: Record<number, string> = {
@@ -27,6 +32,70 @@ const LEVEL_ICONS: Record<string, string> = {
 
 const RESERVED_FIELDS = new Set(['level', 'time', 'msg', 'context', 'err']);
 
+/** Эмодзи класса HTTP-статуса по первой цифре кода. */
+const HTTP_STATUS_ICONS: Record<number, string> = {
+  1: '⚪',
+  2: '🟢',
+  3: '🔵',
+  4: '🟠',
+  5: '🔴',
+};
+
+/** Поля req и res, которые пресет http выносит в строку запроса. */
+const HTTP_REQUEST_SUMMARY_FIELDS = ['id', 'method', 'url', 'remoteAddress'];
+const HTTP_RESPONSE_SUMMARY_FIELDS = ['statusCode'];
+
+/**
+ * Набор примитивов разметки, которыми встроенные форматтеры собирают сообщение.
+ * Текст, передаваемый в bold и italic, должен быть уже экранирован через escape.
+ */
+interface MessageMarkup {
+  escape(value: string): string;
+  bold(value: string): string;
+  italic(value: string): string;
+  pre(value: string): string;
+  /** Ссылка с уже экранированным текстом. */
+  link(url: string, text: string): string;
+  /**
+   * Сворачиваемая цитата с готовым заголовком и неэкранированным текстом. Telegram не допускает
+   * блок кода внутри цитаты, поэтому текст выводится экранированными строками.
+   */
+  expandable(title: string, value: string): string;
+}
+
+const HTML_MARKUP: MessageMarkup = {
+  escape: escapeHtml,
+  bold: (value) => `<b>${value}</b>`,
+  italic: (value) => `<i>${value}</i>`,
+  pre: (value) => `<pre>${escapeHtml(value)}</pre>`,
+  link: (url, text) => `<a href="${escapeHtml(url)}">${text}</a>`,
+  expandable: (title, value) =>
+    `<blockquote expandable>${title}\n${escapeHtml(value)}</blockquote>`,
+};
+
+const MARKDOWN_V2_MARKUP: MessageMarkup = {
+  escape: escapeMarkdownV2,
+  bold: (value) => `*${value}*`,
+  italic: (value) => `_${value}_`,
+  pre: (value) => `\`\`\`\n${escapeMarkdownV2Code(value)}\n\`\`\``,
+  link: (url, text) => `[${text}](${escapeMarkdownV2Url(url)})`,
+  // Свёрнутая цитата начинается с `**>`, каждая строка — с `>`, а последняя заканчивается `||`.
+  expandable: (title, value) =>
+    `**>${title}\n${escapeMarkdownV2(value)
+      .split('\n')
+      .map((line) => `>${line}`)
+      .join('\n')}||`,
+};
+
+const PLAIN_MARKUP: MessageMarkup = {
+  escape: (value) => value,
+  bold: (value) => value,
+  italic: (value) => value,
+  pre: (value) => value,
+  link: (url, text) => `${text} (${url})`,
+  expandable: (title, value) => `${title}\n${value}`,
+};
+
 /**
  * Формирует полезную нагрузку для Telegram-сообщения на основе записи pino.
  * При наличии пользовательского форматтера делегирует работу ему, иначе использует формат по умолчанию.
@@ -65,20 +134,29 @@ export function buildDefaultMessage(
   const levelLabel = resolveLevel(log.level);
   const levelIcon = LEVEL_ICONS[levelLabel] ?? '';
   const timestamp = formatTimestamp(log.time);
-  const message = sanitizeMessage(log.msg ?? 'Message is missing');
+  const markup = resolveBuiltInMarkup(options.parseMode);
+  const message = markup.escape(log.msg ?? 'Message is missing');
   const headings = options.headings;
 
-  const header = `${levelIcon ? `${levelIcon} ` : ''}${levelLabel} — <b>${message}</b>`;
-  const parts: string[] = [header, `<b>${escapeHtml(headings.time)}:</b> ${escapeHtml(timestamp)}`];
+  const header = `${markup.escape(`${levelIcon ? `${levelIcon} ` : ''}${levelLabel} — `)}${markup.bold(message)}`;
+  const parts: string[] = [
+    header,
+    `${markup.bold(markup.escape(`${headings.time}:`))} ${markup.escape(timestamp)}`,
+  ];
 
   const context = extractContext(log, options);
   if (context) {
     parts.push(
-      formatContextBlock(headings.context, redactSensitiveData(context, options.redactKeys)),
+      formatSection(
+        markup,
+        headings.context,
+        redactSensitiveData(context, options.redactKeys),
+        options,
+      ),
     );
   }
 
-  const errorBlock = formatError(log, headings, options);
+  const errorBlock = formatError(markup, log, headings, options);
   if (errorBlock) {
     parts.push(errorBlock);
   }
@@ -86,7 +164,12 @@ export function buildDefaultMessage(
   const extras = extractExtras(log, options);
   if (extras) {
     parts.push(
-      formatContextBlock(headings.extras, redactSensitiveData(extras, options.redactKeys)),
+      formatSection(
+        markup,
+        headings.extras,
+        redactSensitiveData(extras, options.redactKeys),
+        options,
+      ),
     );
   }
 
@@ -109,20 +192,27 @@ export function buildCompactMessage(
   const levelLabel = resolveLevel(log.level);
   const levelIcon = LEVEL_ICONS[levelLabel] ?? '';
   const timestamp = formatTimestamp(log.time);
-  const message = sanitizeMessage(log.msg ?? 'Message is missing');
+  const markup = resolveBuiltInMarkup(options.parseMode);
+  const message = log.msg ?? 'Message is missing';
   const headings = options.headings;
 
-  const header = `${levelIcon ? `${levelIcon} ` : ''}${levelLabel} ${escapeHtml(timestamp)} ${message}`;
+  const header = markup.escape(
+    `${levelIcon ? `${levelIcon} ` : ''}${levelLabel} ${timestamp} ${message}`,
+  );
   const parts: string[] = [header];
 
   const context = extractContext(log, options);
   if (context) {
     parts.push(
-      formatCompactBlock(headings.context, redactSensitiveData(context, options.redactKeys)),
+      formatCompactBlock(
+        markup,
+        headings.context,
+        redactSensitiveData(context, options.redactKeys),
+      ),
     );
   }
 
-  const errorBlock = formatCompactError(log, headings, options);
+  const errorBlock = formatCompactError(markup, log, headings, options);
   if (errorBlock) {
     parts.push(errorBlock);
   }
@@ -130,20 +220,114 @@ export function buildCompactMessage(
   const extras = extractExtras(log, options);
   if (extras) {
     parts.push(
-      formatCompactBlock(headings.extras, redactSensitiveData(extras, options.redactKeys)),
+      formatCompactBlock(markup, headings.extras, redactSensitiveData(extras, options.redactKeys)),
     );
   }
 
   return { text: parts.join('\n'), extra: {} };
 }
 
+/**
+ * Формирует сообщение для записей pino-http и логгеров Fastify/Nest: первой строкой идут
+ * метод, URL, статус с эмодзи класса, время ответа, адрес клиента и ID запроса,
+ * дальше — подробный формат, где в Extras остаются только невынесенные поля req и res.
+ * Значения заголовков, кроме перечисленных в httpHeaderKeys, заменяются маркером.
+ *
+ * @param input Данные о логе и назначении сообщения.
+ * @param options Нормализованные опции транспорта.
+ * @returns Сообщение; записи без req и res форматируются как в пресете verbose.
+ */
+export function buildHttpMessage(
+  input: FormatMessageInput,
+  options: NormalizedOptions,
+): FormatMessageResult {
+  const { log } = input;
+  const req = readRecord(log.req);
+  const res = readRecord(log.res);
+  if (!req && !res) {
+    return buildDefaultMessage(input, options);
+  }
+
+  const { responseTime, reqId, ...rest } = log;
+  const detailsLog: PinoLog = {
+    ...rest,
+    req: buildHttpDetails(req, HTTP_REQUEST_SUMMARY_FIELDS, options),
+    res: buildHttpDetails(res, HTTP_RESPONSE_SUMMARY_FIELDS, options),
+  };
+  const details = buildDefaultMessage({ ...input, log: detailsLog }, options);
+
+  const markup = resolveBuiltInMarkup(options.parseMode);
+  const summary = formatHttpSummary(markup, req, res, responseTime, req?.id ?? reqId);
+  return { ...details, text: `${summary}\n${details.text}` };
+}
+
+function formatHttpSummary(
+  markup: MessageMarkup,
+  req: Record<string, unknown> | undefined,
+  res: Record<string, unknown> | undefined,
+  responseTime: unknown,
+  requestId: unknown,
+): string {
+  const statusCode = typeof res?.statusCode === 'number' ? res.statusCode : undefined;
+  const icon =
+    statusCode === undefined ? '' : `${HTTP_STATUS_ICONS[Math.floor(statusCode / 100)] ?? '⚪'} `;
+  const request = [req?.method, req?.url]
+    .filter((value) => typeof value === 'string' && value.length > 0)
+    .join(' ');
+  const title = [request, statusCode === undefined ? '' : String(statusCode)]
+    .filter((value) => value.length > 0)
+    .join(' → ');
+
+  const details: string[] = [];
+  if (typeof responseTime === 'number' && Number.isFinite(responseTime)) {
+    details.push(`${Math.round(responseTime * 10) / 10} ms`);
+  }
+  if (typeof req?.remoteAddress === 'string') {
+    details.push(req.remoteAddress);
+  }
+  if (typeof requestId === 'string' || typeof requestId === 'number') {
+    details.push(`id=${requestId}`);
+  }
+
+  const head = `${markup.escape(icon)}${markup.bold(markup.escape(title))}`;
+  return details.length > 0 ? `${head}${markup.escape(` · ${details.join(' · ')}`)}` : head;
+}
+
+/**
+ * Оставляет в req или res поля, не попавшие в строку запроса, и редактирует заголовки.
+ *
+ * @returns Объект для Extras или undefined, если полей не осталось.
+ */
+function buildHttpDetails(
+  value: Record<string, unknown> | undefined,
+  summaryFields: string[],
+  options: NormalizedOptions,
+): Record<string, unknown> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const entries = Object.entries(value)
+    .filter(([key, item]) => !summaryFields.includes(key) && item !== undefined)
+    .map(([key, item]) => [
+      key,
+      key === 'headers' ? redactHttpHeaders(item, options.httpHeaderKeys) : item,
+    ]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function readRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
 /**
  * Преобразует числовой уровень pino в строковый ярлык.
  *
  * @param level Числовой уровень логирования.
  * @returns Название уровня в верхнем регистре.
  */
-function resolveLevel(level?: number): string {
+export function resolveLevel(level?: number): string {
   if (!level) {
     return 'INFO';
   }
@@ -151,13 +335,30 @@ function resolveLevel(level?: number): string {
 }
 
 /**
- * Экранирует HTML, чтобы текст безопасно отображался в Telegram.
+ * Выбирает примитивы разметки для встроенных форматтеров.
+ * Устаревший Markdown ими не поддерживается и, как и раньше, получает HTML.
+ *
+ * @param parseMode Режим разметки из настроек.
+ * @returns Набор функций для экранирования и оформления текста.
+ */
+function resolveBuiltInMarkup(parseMode: NormalizedOptions['parseMode']): MessageMarkup {
+  return parseMode === 'MarkdownV2' ? MARKDOWN_V2_MARKUP : HTML_MARKUP;
+}
+
+/**
+ * Выбирает примитивы разметки для служебных вставок в готовый текст (notice, счётчик повторов).
  *
- * @param message Исходное сообщение лога.
- * @returns Подготовленная строка для отправки в Telegram.
+ * @param parseMode Режим разметки сообщения.
+ * @returns HTML- или MarkdownV2-примитивы либо plain-text без оформления.
  */
-function sanitizeMessage(message: string): string {
-  return escapeHtml(message);
+function resolveMarkup(parseMode: NormalizedOptions['parseMode'] | undefined): MessageMarkup {
+  if (parseMode === 'HTML') {
+    return HTML_MARKUP;
+  }
+  if (parseMode === 'MarkdownV2') {
+    return MARKDOWN_V2_MARKUP;
+  }
+  return PLAIN_MARKUP;
 }
 
 /**
@@ -182,30 +383,47 @@ function extractContext(log: PinoLog, options: NormalizedOptions): unknown {
 /**
  * Форматирует объекты для отображения в секциях Context/Extras/Error.
  *
+ * @param markup Примитивы разметки текущего parse_mode.
  * @param title Заголовок блока.
  * @param value Значение, которое нужно вывести.
- * @returns HTML-блок с заголовком и содержимым в теге <pre>.
+ * @returns Блок с жирным заголовком и содержимым в блоке кода.
  */
-function formatContextBlock(title: string, value: unknown): string {
-  const rendered = escapeHtml(JSON.stringify(value, null, 2));
-  return `<b>${escapeHtml(title)}:</b>\n<pre>${rendered}</pre>`;
+function formatContextBlock(markup: MessageMarkup, title: string, value: unknown): string {
+  const rendered = JSON.stringify(value, null, 2);
+  return `${markup.bold(markup.escape(`${title}:`))}\n${markup.pre(rendered)}`;
 }
 
-function formatCompactBlock(title: string, value: unknown): string {
+/**
+ * Форматирует секцию стандартного сообщения и при expandableSections сворачивает её в цитату.
+ */
+function formatSection(
+  markup: MessageMarkup,
+  title: string,
+  value: unknown,
+  options: NormalizedOptions,
+): string {
+  if (!options.expandableSections) {
+    return formatContextBlock(markup, title, value);
+  }
+  return markup.expandable(markup.bold(markup.escape(`${title}:`)), JSON.stringify(value, null, 2));
+}
+
+function formatCompactBlock(markup: MessageMarkup, title: string, value: unknown): string {
   const rendered = JSON.stringify(value);
-  const safeValue = escapeHtml(rendered ?? 'null');
-  return `<pre>${escapeHtml(title)}=${safeValue}</pre>`;
+  return markup.pre(`${title}=${rendered ?? 'null'}`);
 }
 
 /**
  * Собирает информацию об ошибке из поля err записи pino.
  *
+ * @param markup Примитивы разметки текущего parse_mode.
  * @param log Исходный лог pino.
  * @param headings Пользовательские заголовки форматтера.
  * @param options Нормализованные опции транспорта.
- * @returns Готовый HTML-блок или undefined, если err отсутствует.
+ * @returns Готовый блок или undefined, если err отсутствует.
  */
 function formatError(
+  markup: MessageMarkup,
   log: PinoLog,
   headings: NormalizedOptions['headings'],
   options: NormalizedOptions,
@@ -214,14 +432,22 @@ function formatError(
   if (!err) {
     return undefined;
   }
-  const payload = {
-    message: err.message,
-    stack: err.stack,
-  };
-  return formatContextBlock(headings.error, redactSensitiveData(payload, options.redactKeys));
+  const payload = buildErrorPayload(err, options, options.errorCauseDepth);
+  const block = formatSection(
+    markup,
+    headings.error,
+    redactSensitiveData(payload, options.redactKeys),
+    options,
+  );
+  const links = buildSourceLinks(markup, err, options);
+  if (links.length === 0) {
+    return block;
+  }
+  return `${block}\n${markup.bold(markup.escape(`${headings.source}:`))}\n${links.join('\n')}`;
 }
 
 function formatCompactError(
+  markup: MessageMarkup,
   log: PinoLog,
   headings: NormalizedOptions['headings'],
   options: NormalizedOptions,
@@ -230,11 +456,89 @@ function formatCompactError(
   if (!err) {
     return undefined;
   }
-  const payload = {
-    message: err.message,
-    stack: err.stack,
+  const payload = buildErrorPayload(err, options, options.errorCauseDepth);
+  const block = formatCompactBlock(
+    markup,
+    headings.error,
+    redactSensitiveData(payload, options.redactKeys),
+  );
+  const links = buildSourceLinks(markup, err, options);
+  if (links.length === 0) {
+    return block;
+  }
+  return `${block}\n${markup.escape(`${headings.source}: `)}${links.join(markup.escape(', '))}`;
+}
+
+/**
+ * Формирует ссылки на код для кадров стека ошибки, которые указывают на файлы проекта.
+ * Ссылки выводятся отдельно от блока Error, потому что внутри pre разметка не работает.
+ *
+ * @param markup Примитивы разметки текущего parse_mode.
+ * @param err Сериализованная ошибка.
+ * @param options Нормализованные опции транспорта.
+ * @returns Ссылки вида `src/routes/users.js:10` или пустой массив без sourceUrlTemplate.
+ */
+function buildSourceLinks(
+  markup: MessageMarkup,
+  err: Record<string, unknown>,
+  options: NormalizedOptions,
+): string[] {
+  const template = options.sourceUrlTemplate;
+  if (!template || typeof err.stack !== 'string') {
+    return [];
+  }
+  return extractSourceLocations(err.stack, options).map((location) =>
+    markup.link(
+      buildSourceUrl(template, location),
+      markup.escape(`${location.file}:${location.line}`),
+    ),
+  );
+}
+
+/**
+ * Собирает представление ошибки для блока Error: тип, код, сообщение, собственные свойства,
+ * стек, цепочку cause и вложенные ошибки AggregateError (`errors` или `aggregateErrors`
+ * из pino-std-serializers). Глубже depth вложенная ошибка заменяется своим сообщением.
+ * Стек на каждом уровне сокращается по stackFrameLimit, collapseLibraryFrames и stackRoot.
+ *
+ * @param err Сериализованная ошибка.
+ * @param options Нормализованные опции транспорта.
+ * @param depth Сколько уровней cause и errors раскрывать.
+ * @returns Объект для JSON-блока.
+ */
+function buildErrorPayload(
+  err: Record<string, unknown>,
+  options: NormalizedOptions,
+  depth: number,
+): Record<string, unknown> {
+  const { type, code, message, stack, cause, errors, aggregateErrors, ...properties } = err;
+  const payload: Record<string, unknown> = {
+    type,
+    code,
+    message,
+    ...properties,
+    stack: typeof stack === 'string' ? trimStackTrace(stack, options) : stack,
   };
-  return formatCompactBlock(headings.error, redactSensitiveData(payload, options.redactKeys));
+
+  if (cause !== undefined) {
+    payload.cause = buildNestedError(cause, options, depth);
+  }
+  const nested = Array.isArray(errors) ? errors : aggregateErrors;
+  if (Array.isArray(nested)) {
+    payload.errors = nested.map((item) => buildNestedError(item, options, depth));
+  }
+  return payload;
+}
+
+function buildNestedError(value: unknown, options: NormalizedOptions, depth: number): unknown {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  const nested = value as Record<string, unknown>;
+  if (depth <= 0) {
+    return typeof nested.message === 'string' ? nested.message : '[...]';
+  }
+  return buildErrorPayload(nested, options, depth - 1);
 }
 
 /**
@@ -289,21 +593,139 @@ function ensureMaxLength(
   parseMode: NormalizedOptions['parseMode'],
 ): FormatMessageResult {
   const { text, extra, method } = result;
-  const truncate = parseMode === 'HTML' ? truncateHtml : truncateText;
-  const { text: trimmed, truncated } = truncate(text, maxLength);
+  const { text: trimmed, truncated } = truncateFormattedText(text, maxLength, parseMode);
   if (!truncated) {
     return { text: trimmed, extra, method };
   }
 
+  const markup = resolveMarkup(parseMode);
+  const noticeText = 'Сообщение обрезано из-за ограничения Telegram';
   const notice =
-    parseMode === 'HTML'
-      ? `\n\n<b>Сообщение обрезано из-за ограничения Telegram</b>`
-      : `\n\n[Сообщение обрезано из-за ограничения Telegram]`;
+    markup === PLAIN_MARKUP
+      ? `\n\n[${noticeText}]`
+      : `\n\n${markup.bold(markup.escape(noticeText))}`;
 
   if (notice.length >= maxLength) {
     return { text: trimmed, extra, method };
   }
 
-  const { text: finalText } = truncate(text, maxLength - notice.length);
+  const { text: finalText } = truncateFormattedText(text, maxLength - notice.length, parseMode);
   return { text: `${finalText}${notice}`, extra, method };
 }
+
+/**
+ * Дописывает к уже доставленному тексту счётчик повторов для editMessageText.
+ * Исходный текст при необходимости усекается, чтобы счётчик уместился в maxLength.
+ *
+ * @param text Текст первого доставленного сообщения.
+ * @param count Количество повторов события, включая первое.
+ * @param lastSeen Время последнего повтора (значение поля time из лога).
+ * @param parseMode Режим разметки исходного сообщения.
+ * @param maxLength Максимальная длина итогового текста.
+ * @returns Текст сообщения со счётчиком.
+ */
+export function appendOccurrenceCounter(
+  text: string,
+  count: number,
+  lastSeen: number | string | undefined,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+  maxLength: number,
+): string {
+  const label = `×${count}, last seen at ${formatTimestamp(lastSeen)}`;
+  return appendItalicNote(text, label, parseMode, maxLength);
+}
+
+/**
+ * Дописывает к тексту сообщения число записей, отброшенных sampling и throttling
+ * с момента предыдущего сообщения в этот target.
+ *
+ * @param text Текст сообщения.
+ * @param count Количество подавленных записей.
+ * @param parseMode Режим разметки сообщения.
+ * @param maxLength Максимальная длина итогового текста.
+ * @returns Текст сообщения с пометкой, например «+37 log messages suppressed by sampling/throttling».
+ */
+export function appendSuppressedCounter(
+  text: string,
+  count: number,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+  maxLength: number,
+): string {
+  const noun = count === 1 ? 'message' : 'messages';
+  return appendItalicNote(
+    text,
+    `+${count} log ${noun} suppressed by sampling/throttling`,
+    parseMode,
+    maxLength,
+  );
+}
+
+/**
+ * Добавляет курсивную пометку отдельным абзацем, при необходимости усекая исходный текст.
+ */
+function appendItalicNote(
+  text: string,
+  label: string,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+  maxLength: number,
+): string {
+  const markup = resolveMarkup(parseMode);
+  const suffix = `\n\n${markup.italic(markup.escape(label))}`;
+
+  if (text.length + suffix.length <= maxLength) {
+    return `${text}${suffix}`;
+  }
+
+  const { text: trimmed } = truncateFormattedText(
+    text,
+    Math.max(0, maxLength - suffix.length),
+    parseMode,
+  );
+  return `${trimmed}${suffix}`;
+}
+
+/**
+ * Собирает сводку о записях, отброшенных при переполнении очереди target.
+ *
+ * @param summary Накопленные счётчики target.
+ * @param parseMode Режим разметки сообщения.
+ * @returns Текст уведомления, например «⚠️ 312 log messages dropped (280 INFO, 32 WARN) between … and …».
+ */
+export function buildDropNotice(
+  summary: DropSummary,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+): string {
+  const levels = Object.entries(summary.byLevel)
+    .sort(([, left], [, right]) => right - left)
+    .map(([level, count]) => `${count} ${level}`)
+    .join(', ');
+  const noun = summary.count === 1 ? 'message' : 'messages';
+  const label =
+    `${LEVEL_ICONS.WARN} ${summary.count} log ${noun} dropped (${levels}) ` +
+    `between ${formatTimestamp(summary.firstAt)} and ${formatTimestamp(summary.lastAt)}`;
+  const markup = resolveMarkup(parseMode);
+  return markup.escape(label);
+}
+
+/**
+ * Собирает заголовок дайджеста записей, накопленных за тихие часы.
+ *
+ * @param count Количество накопленных записей.
+ * @param firstAt Время первой записи (мс).
+ * @param lastAt Время последней записи (мс).
+ * @param parseMode Режим разметки сообщения.
+ * @returns Текст заголовка, например «🌅 12 log messages held during quiet hours between … and …».
+ */
+export function buildDigestNotice(
+  count: number,
+  firstAt: number,
+  lastAt: number,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+): string {
+  const noun = count === 1 ? 'message' : 'messages';
+  const label =
+    `🌅 ${count} log ${noun} held during quiet hours ` +
+    `between ${formatTimestamp(firstAt)} and ${formatTimestamp(lastAt)}`;
+  const markup = resolveMarkup(parseMode);
+  return markup.bold(markup.escape(label));
+}
@@ -1,42 +1,129 @@
 import { StringDecoder } from 'node:string_decoder';
 import { Writable } from 'node:stream';
-import { buildMessage } from './formatter';
-import { RateLimiter, TaskQueue } from './rate-limiter';
-import { createTextMessageDedupKey, TextMessageDeduper } from './text-message-deduper';
-import { normalizeOptions, splitHtml, splitText } from './utils';
+import { CircuitBreaker } from './circuit-breaker';
+import { DropTracker } from './drop-tracker';
+import {
+  appendOccurrenceCounter,
+  appendSuppressedCounter,
+  buildDigestNotice,
+  buildDropNotice,
+  buildMessage,
+  resolveLevel,
+} from './formatter';
+import { LogSampler } from './log-sampler';
+import { MessageBatcher } from './message-batcher';
+import { isAboveNotifyLevel, isQuietTime } from './quiet-hours';
+import { RateLimiter, TaskQueue, TaskQueueOverflowError } from './rate-limiter';
+import { RequestSpool, SpooledRequest } from './request-spool';
+import { StatsCollector } from './stats-collector';
+import {
+  createTextMessageDedupKey,
+  DedupDeliveredMessage,
+  TextMessageDeduper,
+} from './text-message-deduper';
+import {
+  getMediaFileDefaults,
+  isMediaMethod,
+  matchesTargetRoutes,
+  MEDIA_METHOD_FIELDS,
+  normalizeOptions,
+  splitFormattedText,
+  stripMarkup,
+} from './utils';
 import {
   FormatMessageInput,
   FormatMessageResult,
+  NormalizedOptions,
+  NormalizedTelegramChatTarget,
   PinoLog,
+  TelegramAnimationPayload,
+  TelegramAudioPayload,
   TelegramBasePayload,
   TelegramChatTarget,
+  TelegramCircuitBreakerStats,
+  TelegramCircuitState,
+  TelegramDedupMode,
+  TelegramDedupStrategy,
+  TelegramDropStats,
   TelegramDocumentPayload,
+  TelegramEditMessageTextPayload,
+  TelegramInputMedia,
+  TelegramLatencyStats,
+  TelegramMediaGroupPayload,
+  TelegramMessage,
   TelegramMessagePayload,
+  TelegramMediaField,
   TelegramMethod,
+  TelegramMethodStats,
+  TelegramMethodPayloadMap,
+  TelegramMethodResultMap,
   TelegramPhotoPayload,
   TelegramRequest,
   TelegramSendPayload,
+  TelegramSendResult,
   TelegramInputFile,
   TelegramQueueOverflowStrategy,
+  TelegramQuietHours,
+  TelegramRouteCondition,
+  TelegramRouteValue,
+  TelegramTargetOverrides,
+  TelegramTargetStats,
   TelegramTransportOptions,
+  TelegramTransportStats,
+  TelegramVideoPayload,
+  TelegramVoicePayload,
+  TelegramWeekday,
 } from './types';
-import { TelegramClient, TelegramDeliveryError } from './telegram-client';
+import {
+  createParseEntitiesFallbackError,
+  isParseEntitiesError,
+  isTransientDeliveryError,
+  TelegramClient,
+  TelegramDeliveryError,
+} from './telegram-client';
 
 export type {
+  TelegramCircuitBreakerStats,
+  TelegramCircuitState,
+  TelegramDropStats,
+  TelegramLatencyStats,
+  TelegramMethodStats,
+  TelegramTargetStats,
+  TelegramTransportStats,
   TelegramTransportOptions,
   FormatMessageInput,
   FormatMessageResult,
+  PinoLog,
   TelegramMessagePayload,
   TelegramRequest,
   TelegramSendPayload,
   TelegramPhotoPayload,
   TelegramDocumentPayload,
+  TelegramVideoPayload,
+  TelegramAudioPayload,
+  TelegramVoicePayload,
+  TelegramAnimationPayload,
+  TelegramMediaField,
   TelegramInputFile,
   TelegramBasePayload,
+  TelegramDedupMode,
+  TelegramDedupStrategy,
+  TelegramEditMessageTextPayload,
+  TelegramInputMedia,
+  TelegramMediaGroupPayload,
+  TelegramMessage,
   TelegramMethod,
+  TelegramMethodResultMap,
+  TelegramSendResult,
   TelegramQueueOverflowStrategy,
+  TelegramQuietHours,
+  TelegramRouteCondition,
+  TelegramRouteValue,
+  TelegramTargetOverrides,
+  TelegramWeekday,
 };
 export { TelegramDeliveryError } from './telegram-client';
+export type { TelegramDeliveryErrorCode } from './telegram-client';
 export { createMediaFormatter } from './presets';
 export {
   createNestLoggerOptions,
@@ -44,6 +131,12 @@ export {
   createLambdaLoggerOptions,
 } from './adapters';
 export type { NestLoggerOptions, NestLoggerOverrides, FastifyLoggerOptions } from './adapters';
+export { createMetricsHandler, formatPrometheusMetrics } from './metrics';
+export type {
+  PrometheusMetricsHandler,
+  PrometheusMetricsOptions,
+  TelegramStatsSource,
+} from './metrics';
 
 interface FlushCallback {
   (error?: Error): void;
@@ -51,9 +144,38 @@ interface FlushCallback {
 
 interface FlushableTransportStream extends Writable {
   flush: (callback?: FlushCallback) => void;
+  getCircuitBreakerStats: () => TelegramCircuitBreakerStats;
+  getDropStats: () => TelegramDropStats;
+  getStats: () => TelegramTransportStats;
+}
+
+interface BatchEntry {
+  target: NormalizedTelegramChatTarget;
+  log: PinoLog;
+  text: string;
+  dedupKey?: string;
+}
+
+interface HeldDigest {
+  entries: BatchEntry[];
+  firstAt: number;
+  lastAt: number;
 }
 
 const TRANSPORT_HIGH_WATER_MARK = 1;
+const BATCH_SEPARATOR = '\n\n';
+const DIGEST_CHECK_INTERVAL_MS = 60_000;
+const MEDIA_GROUP_MIN_SIZE = 2;
+const MEDIA_GROUP_MAX_SIZE = 10;
+const SPOOL_REPLAY_INTERVAL_MS = 30_000;
+/** Уровень Pino `error`: такие записи не ждут окна пакета и уходят сразу. */
+const ERROR_LEVEL = 50;
+
+/** Текстовые методы Bot API и поле с размеченным текстом в их полезной нагрузке. */
+const TEXT_METHOD_FIELDS = Object.freeze({
+  sendMessage: 'text',
+  editMessageText: 'text',
+} as const);
 
 /**
  * Создаёт потоковый транспорт для Pino и настраивает внутренние зависимости.
@@ -76,13 +198,44 @@ export default function telegramTransport(options: TelegramTransportOptions) {
     throw error;
   }
 
-  const client = new TelegramClient(normalized);
-  const rateLimiter = new RateLimiter();
+  const circuitBreaker = new CircuitBreaker({
+    threshold: normalized.circuitBreakerThreshold,
+    resetMs: normalized.circuitBreakerResetMs,
+    onStateChange: notifyCircuitStateChange,
+  });
+  const rateLimiter = new RateLimiter({
+    globalPerSecond: normalized.rateLimitPerSecond,
+    groupPerMinute: normalized.groupRateLimitPerMinute,
+    privatePerSecond: normalized.chatRateLimitPerSecond,
+  });
+  const stats = new StatsCollector();
+  const client = new TelegramClient(normalized, circuitBreaker, rateLimiter, stats);
   const deduper = new TextMessageDeduper({ windowMs: normalized.dedupWindowMs });
-  const queue = new TaskQueue({
-    maxSize: normalized.maxQueueSize,
-    overflowStrategy: normalized.overflowStrategy,
+  const targetQueues = new Map<string, TaskQueue>();
+  const targetOptions = new WeakMap<NormalizedTelegramChatTarget, NormalizedOptions>();
+  const dropTracker = new DropTracker();
+  const sampler = new LogSampler(normalized);
+  const suppressedByTarget = new Map<string, number>();
+  const digests = new Map<string, HeldDigest>();
+  let digestTimer: ReturnType<typeof setInterval> | undefined;
+  const spoolQueue = new TaskQueue();
+  const batcher = new MessageBatcher<BatchEntry>({
+    windowMs: normalized.batchWindowMs,
+    maxSize: normalized.batchMaxSize,
+    onExpire: (key) => {
+      enqueueBatch(batcher.take(key));
+    },
   });
+  const spool = normalized.spoolDir
+    ? new RequestSpool({
+        dir: normalized.spoolDir,
+        maxBytes: normalized.spoolMaxBytes,
+        maxAgeMs: normalized.spoolMaxAgeMs,
+      })
+    : undefined;
+  let hasSpooledFailures = spool !== undefined;
+  let isSpoolReplayScheduled = false;
+  let spoolReplayTimer: ReturnType<typeof setTimeout> | undefined;
 
   const decoder = new StringDecoder('utf8');
   let pendingText = '';
@@ -106,7 +259,9 @@ export default function telegramTransport(options: TelegramTransportOptions) {
     final(callback) {
       activeWrites += 1;
       void consumeChunk(Buffer.alloc(0), true)
-        .then(() => queue.onIdle())
+        .then(() => releaseAllDigests())
+        .then(() => waitForQueuesIdle())
+        .then(() => drainBatches())
         .then(() => {
           activeWrites -= 1;
           callback();
@@ -133,6 +288,19 @@ export default function telegramTransport(options: TelegramTransportOptions) {
       });
   };
 
+  stream.getCircuitBreakerStats = () => circuitBreaker.getStats();
+  stream.getDropStats = () => dropTracker.getStats();
+  stream.getStats = getStats;
+
+  startStatsReporting();
+  stream.once('close', stopDigestTimer);
+  stream.once('close', () => {
+    clearTimeout(spoolReplayTimer);
+    spool?.close();
+  });
+
+  scheduleSpoolReplay();
+
   return stream;
 
   async function consumeChunk(chunk: string | Buffer, flushRemainder: boolean): Promise<void> {
@@ -185,11 +353,138 @@ export default function telegramTransport(options: TelegramTransportOptions) {
       return;
     }
 
-    const queuedTask = queue.push(async () => {
-      await processLog(log);
+    const targets = normalized.targets.filter((target) => shouldSendToTarget(log, target));
+    if (targets.length === 0) {
+      return;
+    }
+    if (!sampler.admit(log)) {
+      for (const target of targets) {
+        const key = getBatchKey(target);
+        suppressedByTarget.set(key, (suppressedByTarget.get(key) ?? 0) + 1);
+        stats.recordSuppressed(key);
+      }
+      return;
+    }
+
+    const priority = resolveLogPriority(log);
+    const pending = targets.map((target) => {
+      const handle = getTargetQueue(target).push(async () => {
+        await releaseDigest(target);
+        await processLog(log, target);
+        await deliverDropNotice(target);
+      }, priority);
+      const delivered = handle.done.catch((error) => {
+        recordDrop(error, target, [log]);
+        handleError(error);
+      });
+      // При acknowledgeOnEnqueue доставку ждут только flush и final,
+      // а медленный чат не задерживает приём следующих строк.
+      return normalized.acknowledgeOnEnqueue ? handle.ready : delivered;
     });
 
-    await queuedTask.done;
+    await Promise.all(pending);
+  }
+
+  /**
+   * Возвращает очередь доставки target: у каждого чата своя упорядоченная очередь,
+   * поэтому медленный или ограниченный rate limit чат не задерживает остальные.
+   *
+   * @param target Целевой чат.
+   */
+  function getTargetQueue(target: NormalizedTelegramChatTarget): TaskQueue {
+    const key = getBatchKey(target);
+    let targetQueue = targetQueues.get(key);
+    if (!targetQueue) {
+      targetQueue = new TaskQueue({
+        maxSize: normalized.maxQueueSize,
+        overflowStrategy: normalized.overflowStrategy,
+        protectedPriority: normalized.queueProtectedLevel,
+      });
+      targetQueues.set(key, targetQueue);
+    }
+    return targetQueue;
+  }
+
+  /**
+   * Возвращает опции доставки target: общие настройки с переопределениями из описания чата.
+   *
+   * @param target Целевой чат.
+   */
+  function resolveTargetOptions(target: NormalizedTelegramChatTarget): NormalizedOptions {
+    const { overrides } = target;
+    if (!overrides) {
+      return normalized;
+    }
+
+    let options = targetOptions.get(target);
+    if (!options) {
+      options = {
+        ...normalized,
+        ...overrides,
+        headings: { ...normalized.headings, ...overrides.headings },
+      };
+      targetOptions.set(target, options);
+    }
+    return options;
+  }
+
+  /**
+   * Учитывает записи, которые очередь target отбросила при переполнении.
+   *
+   * @param error Причина, с которой завершилась задача очереди.
+   * @param target Целевой чат задачи.
+   * @param logs Записи, вошедшие в задачу.
+   */
+  function recordDrop(error: unknown, target: NormalizedTelegramChatTarget, logs: PinoLog[]): void {
+    if (!(error instanceof TaskQueueOverflowError)) {
+      return;
+    }
+    for (const log of logs) {
+      dropTracker.record(getBatchKey(target), resolveLevel(log.level));
+      stats.recordDropped(getBatchKey(target));
+    }
+  }
+
+  /**
+   * Отправляет сводку об отброшенных записях, когда очередь target опустела.
+   * Вызывается из задачи очереди, поэтому flush дожидается и этой отправки.
+   *
+   * @param target Целевой чат.
+   */
+  async function deliverDropNotice(target: NormalizedTelegramChatTarget): Promise<void> {
+    if (!normalized.overflowNotice || getTargetQueue(target).size > 0) {
+      return;
+    }
+    if (isCollectingDigest(target)) {
+      return;
+    }
+    const summary = dropTracker.take(getBatchKey(target));
+    if (!summary) {
+      return;
+    }
+
+    let requests: TelegramRequest[];
+    try {
+      requests = buildRequests(target, {
+        text: buildDropNotice(summary, resolveTargetOptions(target).parseMode),
+      });
+    } catch (error) {
+      handleError(error);
+      return;
+    }
+    await deliverRequests(target, requests, []);
+  }
+
+  /**
+   * Дожидается опустошения очередей всех target и очереди replay spool.
+   * Задача одной очереди может поставить задачу в другую (успешная доставка запускает replay),
+   * поэтому проверка повторяется, пока все очереди не окажутся пустыми одновременно.
+   */
+  async function waitForQueuesIdle(): Promise<void> {
+    const listQueues = (): TaskQueue[] => [...targetQueues.values(), spoolQueue];
+    while (listQueues().some((item) => !item.isIdle())) {
+      await Promise.all(listQueues().map((item) => item.onIdle()));
+    }
   }
 
   async function waitForTransportIdle(): Promise<void> {
@@ -197,7 +492,8 @@ export default function telegramTransport(options: TelegramTransportOptions) {
       await waitForNextTurn();
     }
 
-    await queue.onIdle();
+    await waitForQueuesIdle();
+    await drainBatches();
 
     if (activeWrites > 0 || stream.writableLength > 0 || stream.writableNeedDrain) {
       await waitForTransportIdle();
@@ -205,49 +501,683 @@ export default function telegramTransport(options: TelegramTransportOptions) {
   }
 
   /**
-   * Формирует Telegram-запрос из записи Pino и отправляет его всем настроенным чатам.
+   * Формирует Telegram-запрос из записи Pino и отправляет его в указанный чат.
+   * При включённом batching текстовые сообщения уровнем ниже error накапливаются по target
+   * и уходят пакетом; error и fatal сначала выталкивают накопленный пакет, затем уходят сами.
    *
    * @param log Структурированная запись журнала, полученная от pino.
+   * @param target Целевой чат, в очереди которого выполняется задача.
    */
-  async function processLog(log: PinoLog): Promise<void> {
-    for (const target of normalized.targets) {
-      if (!shouldSendToTarget(log, target)) {
-        continue;
+  async function processLog(log: PinoLog, target: NormalizedTelegramChatTarget): Promise<void> {
+    const options = resolveTargetOptions(target);
+    let message = await buildMessage({ log, target, options }, options);
+    let requests: TelegramRequest[];
+
+    try {
+      requests = buildRequests(target, message);
+    } catch (error) {
+      handleError(error);
+      return;
+    }
+
+    const dedupKey = createTextMessageDedupKey(log, target, requests, normalized);
+    if (deduper.shouldSuppress(dedupKey)) {
+      stats.recordDeduplicated(getBatchKey(target));
+      if (normalized.dedupMode === 'edit') {
+        await updateRepeatedMessage(target, log, dedupKey);
+      }
+      return;
+    }
+
+    // Счётчик подавленных записей забирает только сообщение, которое действительно уйдёт.
+    const counted = appendSuppressedCount(target, message);
+    if (counted !== message) {
+      message = counted;
+      requests = buildRequests(target, message);
+    }
+
+    if (shouldHoldForDigest(target, log, message)) {
+      holdForDigest({ target, log, text: message.text, dedupKey });
+      return;
+    }
+
+    const batchKey = getBatchKey(target);
+    if (isBatchable(message, log)) {
+      const readyBatch = batcher.add(batchKey, {
+        target,
+        log,
+        text: message.text,
+        dedupKey,
+      });
+      if (readyBatch) {
+        await deliverBatch(readyBatch);
+      }
+      return;
+    }
+
+    // Пакет с более ранними записями должен уйти раньше, чтобы сохранить порядок в чате.
+    await deliverBatch(batcher.take(batchKey));
+
+    const results = await deliverRequests(target, requests, [log]);
+    if (results) {
+      deduper.remember(dedupKey, resolveEditableMessage(requests, results));
+    }
+  }
+
+  /**
+   * Дописывает счётчик повторов в первое доставленное сообщение события через editMessageText.
+   *
+   * @param target Целевой чат.
+   * @param log Повторная запись лога.
+   * @param dedupKey Ключ события в deduper.
+   */
+  async function updateRepeatedMessage(
+    target: NormalizedTelegramChatTarget,
+    log: PinoLog,
+    dedupKey: string | undefined,
+  ): Promise<void> {
+    const occurrence = deduper.registerRepeat(dedupKey);
+    if (!occurrence?.message) {
+      return;
+    }
+
+    const { message } = occurrence;
+    const payload: TelegramEditMessageTextPayload = {
+      chat_id: message.chatId,
+      message_id: message.messageId,
+      text: appendOccurrenceCounter(
+        message.text,
+        occurrence.count,
+        log.time,
+        message.parseMode,
+        resolveTargetOptions(target).maxMessageLength,
+      ),
+      disable_web_page_preview: normalized.disableWebPagePreview,
+    };
+    if (message.parseMode) {
+      payload.parse_mode = message.parseMode;
+    }
+
+    await deliverRequests(target, [{ method: 'editMessageText', payload }], [log]);
+  }
+
+  /**
+   * Последовательно отправляет подготовленные запросы в один target с учётом rate limit
+   * и сообщает о каждой успешной доставке через onDelivered.
+   * При включённом spool на диск попадают только запросы, доставка которых сорвалась
+   * из-за временной ошибки или разомкнутого circuit breaker.
+   *
+   * @param target Целевой чат.
+   * @param requests Запросы в порядке отправки.
+   * @param logs Записи лога, из которых собраны запросы (несколько — для пакета).
+   * @returns Ответы Telegram по каждому запросу или undefined, если доставка прервалась ошибкой.
+   */
+  async function deliverRequests(
+    target: NormalizedTelegramChatTarget,
+    requests: TelegramRequest[],
+    logs: PinoLog[],
+  ): Promise<Array<TelegramSendResult | undefined> | undefined> {
+    if (isSilencedByQuietHours(target, logs)) {
+      for (const request of requests) {
+        if (request.method !== 'editMessageText') {
+          request.payload.disable_notification = true;
+        }
+      }
+    }
+
+    const results: Array<TelegramSendResult | undefined> = [];
+    for (let index = 0; index < requests.length; index += 1) {
+      await rateLimiter.wait(getTargetKey(target.chatId), normalized.minDelayBetweenMessages);
+
+      const delivery = await sendWithPlainTextFallback(requests[index]);
+      if ('error' in delivery) {
+        if (isTransientDeliveryError(delivery.error)) {
+          await spoolRequests(requests.slice(index));
+        }
+        handleError(delivery.error, delivery.request);
+        return undefined;
+      }
+
+      results.push(delivery.result);
+      notifyDelivered(delivery.result, delivery.request, logs);
+    }
+
+    if (hasSpooledFailures) {
+      scheduleSpoolReplay();
+    }
+    return results;
+  }
+
+  /**
+   * Отправляет запрос, а при ошибке "can't parse entities" один раз переотправляет его
+   * без parse_mode и с удалённой разметкой. Сам факт fallback сообщается в onDeliveryError
+   * ошибкой с кодом PARSE_ENTITIES_FALLBACK.
+   *
+   * @param request Запрос к Telegram.
+   * @returns Фактически отправленный запрос и ответ Telegram либо ошибка последней попытки.
+   */
+  async function sendWithPlainTextFallback(
+    request: TelegramRequest,
+  ): Promise<
+    | { request: TelegramRequest; result: TelegramSendResult | undefined }
+    | { request: TelegramRequest; error: unknown }
+  > {
+    const startedAt = Date.now();
+    try {
+      const result = await client.send(request);
+      stats.recordSent(request, Date.now() - startedAt);
+      return { request, result };
+    } catch (error) {
+      const fallback = isParseEntitiesError(error) ? createPlainTextRequest(request) : undefined;
+      if (!fallback) {
+        stats.recordFailed(request);
+        return { request, error };
+      }
+
+      handleError(createParseEntitiesFallbackError(error as TelegramDeliveryError), request);
+      try {
+        const result = await client.send(fallback);
+        stats.recordSent(fallback, Date.now() - startedAt);
+        return { request: fallback, result };
+      } catch (fallbackError) {
+        stats.recordFailed(fallback);
+        return { request: fallback, error: fallbackError };
+      }
+    }
+  }
+
+  /**
+   * Собирает снимок статистики транспорта с текущей глубиной очередей.
+   */
+  function getStats(): TelegramTransportStats {
+    const queueDepths = new Map<string, number>();
+    for (const [key, targetQueue] of targetQueues) {
+      queueDepths.set(key, targetQueue.size);
+    }
+    return stats.getStats(queueDepths, circuitBreaker.getStats());
+  }
+
+  /**
+   * Запускает периодический вызов onStats. Таймер не удерживает процесс
+   * и останавливается при завершении потока.
+   */
+  function startStatsReporting(): void {
+    const { onStats } = normalized;
+    if (!onStats) {
+      return;
+    }
+    const timer = setInterval(() => {
+      try {
+        onStats(getStats());
+      } catch (error) {
+        handleError(error);
+      }
+    }, normalized.statsIntervalMs);
+    timer.unref?.();
+    stream.once('finish', () => clearInterval(timer));
+    stream.once('close', () => clearInterval(timer));
+  }
+
+  /**
+   * Сохраняет в spool запросы, которые не удалось доставить из-за временной ошибки,
+   * и взводит таймер переотправки.
+   *
+   * @param requests Недоставленные запросы в порядке отправки.
+   */
+  async function spoolRequests(requests: TelegramRequest[]): Promise<void> {
+    if (!spool) {
+      return;
+    }
+    try {
+      for (const request of requests) {
+        await spool.add(request);
+      }
+    } catch (error) {
+      handleError(error);
+    }
+    markSpoolPending();
+  }
+
+  /**
+   * Удаляет запись spool после доставки или окончательного отказа Telegram.
+   *
+   * @param id Идентификатор записи spool.
+   */
+  async function removeSpooledRequest(id: string): Promise<void> {
+    try {
+      await spool?.remove(id);
+    } catch (error) {
+      handleError(error);
+    }
+  }
+
+  /**
+   * Отмечает, что в spool остались недоставленные запросы, и взводит таймер replay:
+   * так spool разгружается, даже если новых логов нет.
+   */
+  function markSpoolPending(): void {
+    hasSpooledFailures = true;
+    if (spoolReplayTimer || stream.destroyed) {
+      return;
+    }
+    spoolReplayTimer = setTimeout(() => {
+      spoolReplayTimer = undefined;
+      scheduleSpoolReplay();
+    }, SPOOL_REPLAY_INTERVAL_MS);
+    spoolReplayTimer.unref?.();
+  }
+
+  /**
+   * Ставит переотправку spool в отдельную очередь: replay идёт параллельно очередям target,
+   * но записи spool переотправляются строго по порядку создания.
+   */
+  function scheduleSpoolReplay(): void {
+    if (!spool || isSpoolReplayScheduled) {
+      return;
+    }
+    isSpoolReplayScheduled = true;
+    spoolQueue
+      .push(async () => {
+        isSpoolReplayScheduled = false;
+        await replaySpool();
+      })
+      .done.catch((error) => {
+        isSpoolReplayScheduled = false;
+        handleError(error);
+      });
+  }
+
+  /**
+   * Переотправляет сохранённые запросы в порядке создания.
+   * Первая же временная ошибка прерывает replay: связь ещё не восстановилась.
+   */
+  async function replaySpool(): Promise<void> {
+    if (!spool) {
+      return;
+    }
+    hasSpooledFailures = false;
+
+    let entries: SpooledRequest[];
+    try {
+      entries = await spool.list();
+    } catch (error) {
+      handleError(error);
+      return;
+    }
+
+    for (const entry of entries) {
+      await rateLimiter.wait(
+        getTargetKey(entry.request.payload.chat_id),
+        normalized.minDelayBetweenMessages,
+      );
+
+      const delivery = await sendWithPlainTextFallback(entry.request);
+      if ('error' in delivery && isTransientDeliveryError(delivery.error)) {
+        markSpoolPending();
+        handleError(delivery.error, delivery.request);
+        return;
+      }
+
+      await removeSpooledRequest(entry.id);
+      if ('error' in delivery) {
+        handleError(delivery.error, delivery.request);
+      }
+    }
+  }
+
+  /**
+   * Передаёт квитанцию о доставке в пользовательский onDelivered.
+   * Исключения обработчика не считаются ошибкой доставки и уходят в handleError.
+   */
+  function notifyDelivered(
+    result: TelegramSendResult | undefined,
+    request: TelegramRequest,
+    logs: PinoLog[],
+  ): void {
+    if (!normalized.onDelivered) {
+      return;
+    }
+
+    for (const log of logs) {
+      try {
+        normalized.onDelivered(result, request, log);
+      } catch (error) {
+        handleError(error, request);
       }
+    }
+  }
+
+  /**
+   * Передаёт смену состояния circuit breaker в пользовательский onCircuitStateChange.
+   * Исключения обработчика уходят в handleError и не влияют на доставку.
+   * Переход в closed или halfOpen запускает replay spool: связь, возможно, восстановилась.
+   */
+  function notifyCircuitStateChange(
+    state: TelegramCircuitState,
+    previousState: TelegramCircuitState,
+    stats: TelegramCircuitBreakerStats,
+  ): void {
+    if (state !== 'open' && hasSpooledFailures) {
+      scheduleSpoolReplay();
+    }
+    try {
+      normalized.onCircuitStateChange?.(state, previousState, stats);
+    } catch (error) {
+      handleError(error);
+    }
+  }
+
+  /**
+   * Склеивает накопленные записи одного target в минимальное число сообщений
+   * с учётом maxMessageLength и отправляет их. Повторы отбрасываются до упаковки.
+   *
+   * @param batch Записи пакета в порядке поступления.
+   * @param heading Заголовок первого сообщения; его длина входит в лимит.
+   */
+  async function deliverBatch(batch: BatchEntry[], heading?: string): Promise<void> {
+    const entries = dedupeBatchEntries(batch);
+    if (entries.length === 0) {
+      return;
+    }
 
-      const message = await buildMessage({ log, target, options: normalized }, normalized);
+    const target = entries[0].target;
+    const groups = packBatchEntries(entries, heading?.length ?? 0);
+
+    for (const [index, group] of groups.entries()) {
       let requests: TelegramRequest[];
 
       try {
-        requests = buildRequests(target, message);
+        const texts = group.map((entry) => entry.text);
+        if (index === 0 && heading) {
+          texts.unshift(heading);
+        }
+        requests = buildRequests(target, { text: texts.join(BATCH_SEPARATOR) });
       } catch (error) {
         handleError(error);
-        continue;
+        return;
       }
 
-      const dedupKey = createTextMessageDedupKey(log, target, requests);
-      if (deduper.shouldSuppress(dedupKey)) {
+      const logs = group.map((entry) => entry.log);
+      if (!(await deliverRequests(target, requests, logs))) {
+        return;
+      }
+
+      for (const entry of group) {
+        deduper.remember(entry.dedupKey);
+      }
+    }
+  }
+
+  /**
+   * Группирует записи пакета так, чтобы склеенный текст каждой группы укладывался в maxMessageLength.
+   * Запись длиннее лимита образует отдельную группу и делится уже на уровне buildRequests.
+   * Если заголовок не помещается вместе с первой записью, первая группа остаётся пустой
+   * и заголовок уходит отдельным сообщением.
+   *
+   * @param entries Записи пакета.
+   * @param headingLength Длина заголовка, который будет добавлен в начало первой группы.
+   */
+  function packBatchEntries(entries: BatchEntry[], headingLength = 0): BatchEntry[][] {
+    const { maxMessageLength } = resolveTargetOptions(entries[0].target);
+    const groups: BatchEntry[][] = [];
+    let current: BatchEntry[] = [];
+    let currentLength = headingLength;
+
+    for (const entry of entries) {
+      const isEmpty = current.length === 0 && currentLength === 0;
+      const nextLength = isEmpty
+        ? entry.text.length
+        : currentLength + BATCH_SEPARATOR.length + entry.text.length;
+      if (!isEmpty && nextLength > maxMessageLength) {
+        groups.push(current);
+        current = [entry];
+        currentLength = entry.text.length;
         continue;
       }
+      current.push(entry);
+      currentLength = nextLength;
+    }
 
-      let deliveredAllRequests = true;
-      for (const request of requests) {
-        await rateLimiter.wait(getTargetKey(target.chatId), normalized.minDelayBetweenMessages);
-
-        try {
-          await client.send(request);
-        } catch (error) {
-          handleError(error, request);
-          deliveredAllRequests = false;
-          break;
-        }
+    if (current.length > 0) {
+      groups.push(current);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Дописывает в текстовое сообщение число записей target, отброшенных sampling и throttling
+   * с момента предыдущего сообщения. Медиа-сообщения счётчик не забирают.
+   *
+   * @param target Целевой чат.
+   * @param message Результат форматтера.
+   */
+  function appendSuppressedCount(
+    target: NormalizedTelegramChatTarget,
+    message: FormatMessageResult,
+  ): FormatMessageResult {
+    const key = getBatchKey(target);
+    const count = suppressedByTarget.get(key);
+    if (!count || (message.method ?? 'sendMessage') !== 'sendMessage') {
+      return message;
+    }
+
+    suppressedByTarget.delete(key);
+    const options = resolveTargetOptions(target);
+    const parseMode = resolveMessageParseMode(message.extra ?? {}, options);
+    const maxLength = options.splitLongMessages ? Infinity : options.maxMessageLength;
+    return {
+      ...message,
+      text: appendSuppressedCounter(message.text, count, parseMode, maxLength),
+    };
+  }
+
+  function isBatchable(message: FormatMessageResult, log: PinoLog): boolean {
+    return (
+      normalized.batchWindowMs > 0 &&
+      resolveLogPriority(log) < ERROR_LEVEL &&
+      isPlainTextMessage(message)
+    );
+  }
+
+  /**
+   * Убирает из пакета повторы: записи, событие которых уже доставлено в окне dedup,
+   * и записи, повторяющие более раннюю запись того же пакета.
+   *
+   * @param entries Записи пакета в порядке поступления.
+   * @returns Записи, которые нужно отправить.
+   */
+  function dedupeBatchEntries(entries: BatchEntry[]): BatchEntry[] {
+    const batchKeys = new Set<string>();
+    return entries.filter(({ target, dedupKey }) => {
+      if (!dedupKey) {
+        return true;
+      }
+      if (batchKeys.has(dedupKey) || deduper.shouldSuppress(dedupKey)) {
+        stats.recordDeduplicated(getBatchKey(target));
+        return false;
       }
+      if (normalized.dedupWindowMs > 0) {
+        batchKeys.add(dedupKey);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Проверяет, что доставку в target нужно сделать без звука: идут тихие часы,
+   * а ни одна из записей не достигает notifyLevel.
+   *
+   * @param target Целевой чат.
+   * @param logs Записи, из которых собраны запросы (пусто — служебное уведомление).
+   */
+  function isSilencedByQuietHours(target: NormalizedTelegramChatTarget, logs: PinoLog[]): boolean {
+    const { quietHours } = resolveTargetOptions(target);
+    if (!quietHours || !isQuietTime(quietHours, Date.now())) {
+      return false;
+    }
+    return !logs.some((log) => isAboveNotifyLevel(quietHours, log));
+  }
+
+  /**
+   * Проверяет, что target сейчас копит дайджест тихих часов: служебные уведомления
+   * откладываются до его отправки.
+   */
+  function isCollectingDigest(target: NormalizedTelegramChatTarget): boolean {
+    const { quietHours } = resolveTargetOptions(target);
+    return quietHours?.digest === true && isQuietTime(quietHours, Date.now());
+  }
+
+  function shouldHoldForDigest(
+    target: NormalizedTelegramChatTarget,
+    log: PinoLog,
+    message: FormatMessageResult,
+  ): boolean {
+    const { quietHours } = resolveTargetOptions(target);
+    return (
+      quietHours !== undefined &&
+      isCollectingDigest(target) &&
+      isPlainTextMessage(message) &&
+      !isAboveNotifyLevel(quietHours, log)
+    );
+  }
+
+  /**
+   * Откладывает текстовую запись до конца тихих часов. Дайджест target ограничен
+   * maxQueueSize: при переполнении отбрасываются самые старые записи.
+   *
+   * @param entry Отформатированная запись.
+   */
+  function holdForDigest(entry: BatchEntry): void {
+    const key = getBatchKey(entry.target);
+    const now = Date.now();
+    let digest = digests.get(key);
+    if (!digest) {
+      digest = { entries: [], firstAt: now, lastAt: now };
+      digests.set(key, digest);
+    }
+    digest.entries.push(entry);
+    digest.lastAt = now;
+    // Отложенная запись уже учтена: повторы в окне dedup не попадают в дайджест второй раз.
+    deduper.remember(entry.dedupKey);
+
+    if (digest.entries.length > normalized.maxQueueSize) {
+      const [dropped] = digest.entries.splice(0, 1);
+      dropTracker.record(key, resolveLevel(dropped.log.level));
+      stats.recordDropped(key);
+    }
+
+    if (!digestTimer) {
+      digestTimer = setInterval(enqueueDueDigests, DIGEST_CHECK_INTERVAL_MS);
+      digestTimer.unref?.();
+    }
+  }
+
+  /**
+   * Отправляет накопленный дайджест target одним пакетом с заголовком,
+   * если тихие часы закончились или force=true (завершение потока).
+   *
+   * @param target Целевой чат.
+   * @param force Отправить независимо от расписания.
+   */
+  async function releaseDigest(target: NormalizedTelegramChatTarget, force = false): Promise<void> {
+    const key = getBatchKey(target);
+    const digest = digests.get(key);
+    if (!digest) {
+      return;
+    }
+    const { quietHours, parseMode } = resolveTargetOptions(target);
+    if (!force && quietHours && isQuietTime(quietHours, Date.now())) {
+      return;
+    }
+
+    digests.delete(key);
+    if (digests.size === 0) {
+      stopDigestTimer();
+    }
+
+    let heading = buildDigestNotice(
+      digest.entries.length,
+      digest.firstAt,
+      digest.lastAt,
+      parseMode,
+    );
+    // Сводка об отброшенных за тихие часы записях уходит вместе с дайджестом, а не отдельно.
+    const drops = normalized.overflowNotice ? dropTracker.take(key) : undefined;
+    if (drops) {
+      heading += `\n${buildDropNotice(drops, parseMode)}`;
+    }
+    await deliverBatch(digest.entries, heading);
+  }
+
+  function enqueueDigestRelease(target: NormalizedTelegramChatTarget, force: boolean): void {
+    getTargetQueue(target)
+      .push(() => releaseDigest(target, force))
+      .done.catch(handleError);
+  }
 
-      if (deliveredAllRequests) {
-        deduper.remember(dedupKey);
+  function enqueueDueDigests(): void {
+    for (const digest of digests.values()) {
+      const { target } = digest.entries[0];
+      const { quietHours } = resolveTargetOptions(target);
+      if (!quietHours || !isQuietTime(quietHours, Date.now())) {
+        enqueueDigestRelease(target, false);
       }
     }
   }
+
+  /**
+   * Отправляет все накопленные дайджесты при завершении потока, чтобы записи не потерялись.
+   */
+  async function releaseAllDigests(): Promise<void> {
+    for (const digest of digests.values()) {
+      enqueueDigestRelease(digest.entries[0].target, true);
+    }
+    await waitForQueuesIdle();
+  }
+
+  function stopDigestTimer(): void {
+    if (digestTimer) {
+      clearInterval(digestTimer);
+      digestTimer = undefined;
+    }
+  }
+
+  function enqueueBatch(entries: BatchEntry[]): void {
+    if (entries.length === 0) {
+      return;
+    }
+    getTargetQueue(entries[0].target)
+      .push(
+        async () => {
+          await deliverBatch(entries);
+          await deliverDropNotice(entries[0].target);
+        },
+        Math.max(...entries.map((entry) => resolveLogPriority(entry.log))),
+      )
+      .done.catch((error) => {
+        recordDrop(
+          error,
+          entries[0].target,
+          entries.map((entry) => entry.log),
+        );
+        handleError(error);
+      });
+  }
+
+  /**
+   * Ставит в очередь все незавершённые пакеты и дожидается их доставки.
+   */
+  async function drainBatches(): Promise<void> {
+    if (!batcher.hasPending()) {
+      return;
+    }
+    for (const [, entries] of batcher.takeAll()) {
+      enqueueBatch(entries);
+    }
+    await waitForQueuesIdle();
+  }
+
   function shouldProcessLog(log: PinoLog): boolean {
     if (!Number.isFinite(log.level)) {
       return true;
@@ -255,7 +1185,11 @@ export default function telegramTransport(options: TelegramTransportOptions) {
     return log.level >= normalized.minLevel;
   }
 
-  function shouldSendToTarget(log: PinoLog, target: TelegramChatTarget): boolean {
+  function shouldSendToTarget(log: PinoLog, target: NormalizedTelegramChatTarget): boolean {
+    if (!matchesTargetRoutes(log, target)) {
+      return false;
+    }
+
     if (!Number.isFinite(log.level)) {
       return true;
     }
@@ -295,19 +1229,20 @@ export default function telegramTransport(options: TelegramTransportOptions) {
    * @returns Готовый Telegram-запрос с выбранным методом и полезной нагрузкой.
    */
   function buildRequests(
-    target: TelegramChatTarget,
+    target: NormalizedTelegramChatTarget,
     message: FormatMessageResult,
   ): TelegramRequest[] {
     const method: TelegramMethod = message.method ?? 'sendMessage';
+    const options = resolveTargetOptions(target);
     const base = createBasePayload(target);
     const extra = { ...(message.extra ?? {}) } as Record<string, unknown>;
 
     switch (method) {
       case 'sendMessage': {
-        const parseMode = resolveMessageParseMode(extra);
+        const parseMode = resolveMessageParseMode(extra, options);
         const textParts =
-          normalized.splitLongMessages && message.text.length > normalized.maxMessageLength
-            ? splitMessageText(message.text, normalized.maxMessageLength, parseMode)
+          options.splitLongMessages && message.text.length > options.maxMessageLength
+            ? splitFormattedText(message.text, options.maxMessageLength, parseMode)
             : [message.text];
 
         return textParts.map((part) => {
@@ -321,34 +1256,47 @@ export default function telegramTransport(options: TelegramTransportOptions) {
           return { method, payload };
         });
       }
-      case 'sendPhoto': {
-        const media = normalizeMediaValue(extra.photo, 'photo');
+      case 'sendPhoto':
+      case 'sendDocument':
+      case 'sendVideo':
+      case 'sendAudio':
+      case 'sendVoice':
+      case 'sendAnimation': {
+        const field = MEDIA_METHOD_FIELDS[method];
+        const media = normalizeMediaValue(extra[field], field);
         if (!media) {
-          throw new Error('Форматтер должен вернуть поле photo для метода sendPhoto.');
+          throw new Error(`Форматтер должен вернуть поле ${field} для метода ${method}.`);
         }
         const caption = typeof extra.caption === 'string' ? extra.caption : message.text;
-        delete extra.photo;
+        delete extra[field];
         delete extra.caption;
-        const payload: TelegramPhotoPayload = {
+        const payload = {
           ...base,
-          photo: media,
+          [field]: media,
           caption,
-        };
+        } as TelegramMethodPayloadMap[typeof method];
         Object.assign(payload, extra);
-        return [{ method, payload }];
+        return [{ method, payload } as TelegramRequest];
       }
-      case 'sendDocument': {
-        const media = normalizeMediaValue(extra.document, 'document');
-        if (!media) {
-          throw new Error('Форматтер должен вернуть поле document для метода sendDocument.');
-        }
+      case 'sendMediaGroup': {
+        const media = normalizeMediaGroup(extra.media);
         const caption = typeof extra.caption === 'string' ? extra.caption : message.text;
-        delete extra.document;
+        delete extra.media;
         delete extra.caption;
-        const payload: TelegramDocumentPayload = {
-          ...base,
-          document: media,
-          caption,
+        const { parse_mode: parseMode, ...groupBase } = base;
+        if (caption && !media[0].caption) {
+          media[0] = { ...media[0], caption };
+        }
+        if (parseMode) {
+          for (let index = 0; index < media.length; index += 1) {
+            if (media[index].caption && !media[index].parse_mode) {
+              media[index] = { ...media[index], parse_mode: parseMode };
+            }
+          }
+        }
+        const payload: TelegramMediaGroupPayload = {
+          ...groupBase,
+          media,
         };
         Object.assign(payload, extra);
         return [{ method, payload }];
@@ -364,11 +1312,12 @@ export default function telegramTransport(options: TelegramTransportOptions) {
    * @param target Целевой чат и опциональная тема из настроек.
    * @returns Базовая полезная нагрузка Telegram без медиа-специфичных полей.
    */
-  function createBasePayload(target: TelegramChatTarget): TelegramBasePayload {
+  function createBasePayload(target: NormalizedTelegramChatTarget): TelegramBasePayload {
+    const { parseMode, disableNotification } = resolveTargetOptions(target);
     const base: TelegramBasePayload = {
       chat_id: target.chatId,
-      parse_mode: normalized.parseMode,
-      disable_notification: normalized.disableNotification,
+      parse_mode: parseMode,
+      disable_notification: disableNotification,
     };
     if (typeof target.threadId === 'number') {
       base.message_thread_id = target.threadId;
@@ -378,23 +1327,13 @@ export default function telegramTransport(options: TelegramTransportOptions) {
 
   function resolveMessageParseMode(
     extra: Record<string, unknown>,
+    options: NormalizedOptions,
   ): TelegramBasePayload['parse_mode'] {
     const parseMode = extra.parse_mode;
     if (parseMode === 'HTML' || parseMode === 'Markdown' || parseMode === 'MarkdownV2') {
       return parseMode;
     }
-    return normalized.parseMode;
-  }
-
-  function splitMessageText(
-    text: string,
-    maxLength: number,
-    parseMode: TelegramBasePayload['parse_mode'],
-  ): string[] {
-    if (parseMode === 'HTML') {
-      return splitHtml(text, maxLength);
-    }
-    return splitText(text, maxLength);
+    return options.parseMode;
   }
 }
 
@@ -424,7 +1363,7 @@ function isConfigurationInitError(error: unknown): error is Error {
  */
 function normalizeMediaValue(
   value: unknown,
-  field: 'photo' | 'document',
+  field: TelegramMediaField,
 ): string | TelegramInputFile | undefined {
   if (typeof value === 'string') {
     const trimmed = value.trim();
@@ -438,15 +1377,52 @@ function normalizeMediaValue(
     };
   }
   if (isBinaryLike(value)) {
+    const defaults = getMediaFileDefaults(field);
     return {
       data: toUint8Array(value),
-      filename: defaultFilename(field),
-      contentType: defaultContentType(field),
+      filename: defaults.filename,
+      contentType: defaults.contentType,
     };
   }
   return undefined;
 }
 
+/**
+ * Проверяет и нормализует элементы альбома для sendMediaGroup.
+ * Telegram не смешивает документы с фото в одном альбоме, поэтому при наличии
+ * хотя бы одного документа все элементы отправляются как документы.
+ *
+ * @param value Поле media из форматтера.
+ * @returns Нормализованные элементы альбома.
+ */
+function normalizeMediaGroup(value: unknown): TelegramInputMedia[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Форматтер должен вернуть массив media для метода sendMediaGroup.');
+  }
+  if (value.length < MEDIA_GROUP_MIN_SIZE || value.length > MEDIA_GROUP_MAX_SIZE) {
+    throw new Error(
+      `Альбом sendMediaGroup должен содержать от ${MEDIA_GROUP_MIN_SIZE} до ${MEDIA_GROUP_MAX_SIZE} элементов, получено ${value.length}.`,
+    );
+  }
+
+  const hasDocuments = value.some(
+    (item) => (item as { type?: unknown } | undefined)?.type === 'document',
+  );
+
+  return value.map((item, index) => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    if (entry.type !== 'photo' && entry.type !== 'document') {
+      throw new Error(`Элемент media[${index}] должен иметь type photo или document.`);
+    }
+    const type = hasDocuments ? 'document' : entry.type;
+    const media = normalizeMediaValue(entry.media, type);
+    if (!media) {
+      throw new Error(`Элемент media[${index}] должен содержать URL или двоичное содержимое.`);
+    }
+    return { ...entry, type, media } as TelegramInputMedia;
+  });
+}
+
 /**
  * Проверяет, соответствует ли значение ожиданиям TelegramInputFile.
  *
@@ -516,24 +1492,6 @@ function toUint8Array(data: Buffer | Uint8Array | ArrayBuffer | SerializedBuffer
   throw new TypeError('Unsupported binary payload');
 }
 
-/**
- * Возвращает имя файла по умолчанию для загрузки медиа.
- *
- * @param field Тип медиаполя (photo или document).
- */
-function defaultFilename(field: 'photo' | 'document'): string {
-  return field === 'photo' ? 'photo.jpg' : 'document.bin';
-}
-
-/**
- * Возвращает content-type по умолчанию для выбранного типа медиа.
- *
- * @param field Тип медиаполя (photo или document).
- */
-function defaultContentType(field: 'photo' | 'document'): string {
-  return field === 'photo' ? 'image/jpeg' : 'application/octet-stream';
-}
-
 /**
  * Создаёт поток-заглушку, который игнорирует все входящие сообщения Pino.
  * Используется, когда транспорт невозможно инициализировать из-за ошибок конфигурации.
@@ -552,6 +1510,13 @@ function createNoopStream() {
       process.nextTick(callback);
     }
   };
+  stream.getCircuitBreakerStats = () => new CircuitBreaker({ threshold: 0, resetMs: 0 }).getStats();
+  stream.getDropStats = () => new DropTracker().getStats();
+  stream.getStats = () =>
+    new StatsCollector().getStats(
+      new Map(),
+      new CircuitBreaker({ threshold: 0, resetMs: 0 }).getStats(),
+    );
 
   return stream;
 }
@@ -593,6 +1558,116 @@ function getTargetKey(chatId: TelegramMessagePayload['chat_id']): string {
   return String(chatId);
 }
 
+/**
+ * Приоритет записи в очереди доставки — её уровень Pino; записи без числового уровня идут последними.
+ *
+ * @param log Запись Pino.
+ */
+function resolveLogPriority(log: PinoLog): number {
+  return Number.isFinite(log.level) ? log.level : 0;
+}
+
+/**
+ * Проверяет, что результат форматтера — обычное текстовое сообщение без дополнительных полей.
+ */
+function isPlainTextMessage(message: FormatMessageResult): boolean {
+  if ((message.method ?? 'sendMessage') !== 'sendMessage') {
+    return false;
+  }
+  return !message.extra || Object.keys(message.extra).length === 0;
+}
+
+/**
+ * Выбирает сообщение, в которое дописывается счётчик повторов: последнюю часть текстового события.
+ *
+ * @param requests Отправленные запросы события.
+ * @param results Ответы Telegram в том же порядке.
+ * @returns Описание сообщения или undefined, если Telegram не вернул message_id.
+ */
+function resolveEditableMessage(
+  requests: TelegramRequest[],
+  results: Array<TelegramSendResult | undefined>,
+): DedupDeliveredMessage | undefined {
+  const lastRequest = requests[requests.length - 1];
+  const lastResult = results[results.length - 1];
+  if (
+    typeof lastResult !== 'object' ||
+    Array.isArray(lastResult) ||
+    lastRequest?.method !== 'sendMessage'
+  ) {
+    return undefined;
+  }
+
+  return {
+    chatId: lastRequest.payload.chat_id,
+    messageId: lastResult.message_id,
+    text: lastRequest.payload.text,
+    parseMode: lastRequest.payload.parse_mode,
+  };
+}
+
+/**
+ * Строит копию запроса без parse_mode: текст, подпись и подписи элементов альбома
+ * очищаются от разметки того режима, в котором были записаны.
+ *
+ * @param request Исходный запрос, отклонённый Telegram из-за разметки.
+ * @returns Plain-text запрос или undefined, если в запросе нет parse_mode.
+ */
+function createPlainTextRequest(request: TelegramRequest): TelegramRequest | undefined {
+  if (request.method === 'sendMediaGroup') {
+    let changed = false;
+    const media = request.payload.media.map((item) => {
+      const plainItem = stripPayloadMarkup(item, 'caption');
+      changed ||= plainItem !== undefined;
+      return plainItem ?? item;
+    });
+    return changed ? { method: request.method, payload: { ...request.payload, media } } : undefined;
+  }
+
+  const field = isMediaMethod(request.method)
+    ? 'caption'
+    : TEXT_METHOD_FIELDS[request.method as keyof typeof TEXT_METHOD_FIELDS];
+  if (!field) {
+    return undefined;
+  }
+  const payload = stripPayloadMarkup(request.payload, field);
+  return payload && ({ method: request.method, payload } as TelegramRequest);
+}
+
+/**
+ * Копирует полезную нагрузку без parse_mode и снимает разметку с текстового поля.
+ *
+ * @param payload Полезная нагрузка запроса или элемент альбома.
+ * @param field Поле, содержащее размеченный текст.
+ * @returns Копия без parse_mode или undefined, если parse_mode не задан.
+ */
+function stripPayloadMarkup<
+  P extends { parse_mode?: TelegramBasePayload['parse_mode']; text?: string; caption?: string },
+>(payload: P, field: 'text' | 'caption'): P | undefined {
+  const { parse_mode: parseMode } = payload;
+  if (!parseMode) {
+    return undefined;
+  }
+
+  const plain = { ...payload };
+  delete plain.parse_mode;
+  const value = plain[field];
+  if (typeof value === 'string') {
+    Object.assign(plain, { [field]: stripMarkup(value, parseMode) });
+  }
+  return plain;
+}
+
+/**
+ * Строит ключ пакета, различающий чаты и темы внутри одного чата.
+ *
+ * @param target Целевой чат.
+ * @returns Строковый ключ для батчера.
+ */
+function getBatchKey(target: TelegramChatTarget): string {
+  return `${String(target.chatId)}:${target.threadId ?? ''}`;
+}
+
 function trimTrailingCarriageReturn(line: string): string {
   return line.endsWith('\r') ? line.slice(0, -1) : line;
 }
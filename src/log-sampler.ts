@@ -0,0 +1,121 @@
+import { PinoLog } from './types';
+
+interface LogSamplerOptions {
+  /** Доля пропускаемых записей по числовому уровню (0..1); уровни без записи пропускаются целиком. */
+  sampleRates: Record<number, number>;
+  /** Сколько записей одного fingerprint пропускать за окно; 0 отключает throttling. */
+  throttleLimit: number;
+  throttleWindowMs: number;
+  now?: () => number;
+  random?: () => number;
+}
+
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const HEX_ID_PATTERN = /\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi;
+const NUMBER_PATTERN = /\d+(?:\.\d+)?/g;
+const PLACEHOLDER = '#';
+
+/**
+ * Решает, пропускать ли запись дальше: сначала вероятностный sampling по уровню,
+ * затем ограничение числа записей с одинаковым fingerprint в скользящем окне.
+ */
+export class LogSampler {
+  private readonly sampleRates: Record<number, number>;
+  private readonly throttleLimit: number;
+  private readonly throttleWindowMs: number;
+  private readonly now: () => number;
+  private readonly random: () => number;
+  private readonly hitsByFingerprint = new Map<string, number[]>();
+  private lastSweepAt = 0;
+
+  constructor(options: LogSamplerOptions) {
+    this.sampleRates = options.sampleRates;
+    this.throttleLimit = options.throttleLimit;
+    this.throttleWindowMs = options.throttleWindowMs;
+    this.now = options.now ?? (() => Date.now());
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Проверяет запись и учитывает её в окне throttling, если она пропущена.
+   *
+   * @param log Запись Pino.
+   * @returns True, если запись нужно доставить.
+   */
+  admit(log: PinoLog): boolean {
+    const rate = this.sampleRates[log.level];
+    if (rate !== undefined && this.random() >= rate) {
+      return false;
+    }
+
+    if (this.throttleLimit <= 0) {
+      return true;
+    }
+
+    const currentTime = this.now();
+    this.sweepExpiredFingerprints(currentTime);
+
+    const fingerprint = createLogFingerprint(log);
+    const hits = this.hitsByFingerprint.get(fingerprint) ?? [];
+    this.pruneExpiredHits(hits, currentTime);
+    if (hits.length >= this.throttleLimit) {
+      return false;
+    }
+    hits.push(currentTime);
+    this.hitsByFingerprint.set(fingerprint, hits);
+    return true;
+  }
+
+  private pruneExpiredHits(hits: number[], currentTime: number): void {
+    while (hits.length > 0 && currentTime - hits[0] >= this.throttleWindowMs) {
+      hits.shift();
+    }
+  }
+
+  /**
+   * Не чаще раза за окно удаляет fingerprint, все отметки которых устарели,
+   * чтобы редкие события не копились в памяти.
+   */
+  private sweepExpiredFingerprints(currentTime: number): void {
+    if (currentTime - this.lastSweepAt < this.throttleWindowMs) {
+      return;
+    }
+    this.lastSweepAt = currentTime;
+    for (const [fingerprint, hits] of this.hitsByFingerprint.entries()) {
+      this.pruneExpiredHits(hits, currentTime);
+      if (hits.length === 0) {
+        this.hitsByFingerprint.delete(fingerprint);
+      }
+    }
+  }
+}
+
+/**
+ * Строит fingerprint записи по шаблону `msg` и `err.message`: UUID, шестнадцатеричные
+ * идентификаторы и числа заменяются на `#`, поэтому `user 42 not found`
+ * и `user 7 not found` считаются одним событием.
+ *
+ * @param log Запись Pino.
+ */
+export function createLogFingerprint(log: PinoLog): string {
+  const errorMessage = log.err && typeof log.err === 'object' ? log.err.message : undefined;
+  return JSON.stringify([
+    normalizeFingerprintText(log.msg),
+    normalizeFingerprintText(errorMessage),
+  ]);
+}
+
+/**
+ * Заменяет в тексте UUID, шестнадцатеричные идентификаторы и числа на `#`.
+ *
+ * @param value Исходный текст; нестроковые значения дают пустую строку.
+ */
+export function normalizeFingerprintText(value: unknown): string {
+  if (typeof value !== 'string') {
+    return '';
+  }
+  return value
+    .replace(UUID_PATTERN, PLACEHOLDER)
+    .replace(HEX_ID_PATTERN, PLACEHOLDER)
+    .replace(NUMBER_PATTERN, PLACEHOLDER);
+}
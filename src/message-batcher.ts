@@ -0,0 +1,86 @@
+interface MessageBatcherOptions {
+  windowMs: number;
+  maxSize: number;
+  onExpire: (key: string) => void;
+}
+
+interface PendingBatch<T> {
+  items: T[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Накапливает записи по ключу (обычно target) до истечения окна или достижения лимита размера.
+ * Сам батчер ничего не отправляет: по таймеру он лишь сообщает ключ через onExpire,
+ * а извлечение готового пакета остаётся за вызывающей стороной.
+ */
+export class MessageBatcher<T> {
+  private readonly windowMs: number;
+  private readonly maxSize: number;
+  private readonly onExpire: (key: string) => void;
+  private readonly batches = new Map<string, PendingBatch<T>>();
+
+  constructor(options: MessageBatcherOptions) {
+    this.windowMs = options.windowMs;
+    this.maxSize = options.maxSize;
+    this.onExpire = options.onExpire;
+  }
+
+  /**
+   * Добавляет запись в пакет указанного ключа.
+   *
+   * @param key Идентификатор пакета.
+   * @param item Запись для накопления.
+   * @returns Заполненный пакет, если достигнут maxSize, иначе undefined.
+   */
+  add(key: string, item: T): T[] | undefined {
+    let batch = this.batches.get(key);
+    if (!batch) {
+      batch = { items: [] };
+      this.batches.set(key, batch);
+      batch.timer = setTimeout(() => {
+        this.onExpire(key);
+      }, this.windowMs);
+    }
+
+    batch.items.push(item);
+
+    if (batch.items.length >= this.maxSize) {
+      return this.take(key);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Извлекает накопленный пакет и сбрасывает его таймер.
+   *
+   * @param key Идентификатор пакета.
+   * @returns Записи пакета в порядке добавления (пустой массив, если пакета нет).
+   */
+  take(key: string): T[] {
+    const batch = this.batches.get(key);
+    if (!batch) {
+      return [];
+    }
+
+    if (batch.timer) {
+      clearTimeout(batch.timer);
+    }
+    this.batches.delete(key);
+    return batch.items;
+  }
+
+  /**
+   * Извлекает все накопленные пакеты, например перед flush или завершением потока.
+   *
+   * @returns Пары ключ/записи в порядке создания пакетов.
+   */
+  takeAll(): Array<[string, T[]]> {
+    return Array.from(this.batches.keys()).map((key) => [key, this.take(key)]);
+  }
+
+  hasPending(): boolean {
+    return this.batches.size > 0;
+  }
+}
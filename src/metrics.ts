@@ -0,0 +1,191 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type {
+  TelegramCircuitState,
+  TelegramMethodStats,
+  TelegramTargetStats,
+  TelegramTransportStats,
+} from './types';
+
+export interface PrometheusMetricsOptions {
+  /** Префикс имён метрик. */
+  prefix?: string;
+  /** Постоянные метки, добавляемые к каждой метрике (например, service). */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Источник статистики: поток транспорта (stream.getStats) или функция, возвращающая снимок.
+ */
+export type TelegramStatsSource =
+  | { getStats: () => TelegramTransportStats }
+  | (() => TelegramTransportStats);
+
+export type PrometheusMetricsHandler = (request: IncomingMessage, response: ServerResponse) => void;
+
+type MetricType = 'counter' | 'gauge' | 'summary';
+
+interface MetricSample {
+  labels: Record<string, string>;
+  value: number;
+  /** Суффикс имени сэмпла, например `_sum` и `_count` у summary. */
+  suffix?: string;
+}
+
+const DEFAULT_PREFIX = 'pino_telegram';
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const CIRCUIT_STATES: TelegramCircuitState[] = ['closed', 'open', 'halfOpen'];
+
+const TARGET_METRICS: Array<[string, MetricType, string, keyof TelegramTargetStats]> = [
+  ['queue_depth', 'gauge', 'Tasks waiting in the delivery queue of each target.', 'queueDepth'],
+  ['sent_total', 'counter', 'Requests delivered to Telegram.', 'sent'],
+  ['failed_total', 'counter', 'Requests that could not be delivered.', 'failed'],
+  ['retried_total', 'counter', 'Retry attempts after temporary errors.', 'retried'],
+  ['deduplicated_total', 'counter', 'Log records suppressed by deduplication.', 'deduplicated'],
+  [
+    'suppressed_total',
+    'counter',
+    'Log records suppressed by sampling and throttling.',
+    'suppressed',
+  ],
+  ['dropped_total', 'counter', 'Log records dropped on queue overflow.', 'dropped'],
+];
+
+const METHOD_METRICS: Array<[string, string, keyof TelegramMethodStats]> = [
+  ['method_sent_total', 'Requests delivered per Bot API method.', 'sent'],
+  ['method_failed_total', 'Failed requests per Bot API method.', 'failed'],
+  ['method_retried_total', 'Retry attempts per Bot API method.', 'retried'],
+  ['rate_limited_total', 'Telegram 429 Too Many Requests responses.', 'rateLimited'],
+];
+
+/**
+ * Преобразует статистику транспорта в текстовый формат Prometheus (exposition format 0.0.4).
+ *
+ * @param stats Снимок stream.getStats().
+ * @param options Префикс и постоянные метки.
+ * @returns Текст для ответа на запрос /metrics.
+ */
+export function formatPrometheusMetrics(
+  stats: TelegramTransportStats,
+  options: PrometheusMetricsOptions = {},
+): string {
+  const prefix = options.prefix ?? DEFAULT_PREFIX;
+  const constantLabels = options.labels ?? {};
+  const lines: string[] = [];
+
+  const write = (name: string, type: MetricType, help: string, samples: MetricSample[]) => {
+    const metric = `${prefix}_${name}`;
+    lines.push(`# HELP ${metric} ${help}`);
+    lines.push(`# TYPE ${metric} ${type}`);
+    for (const sample of samples) {
+      const labels = formatLabels({ ...constantLabels, ...sample.labels });
+      lines.push(`${metric}${sample.suffix ?? ''}${labels} ${formatValue(sample.value)}`);
+    }
+  };
+
+  for (const [name, type, help, field] of TARGET_METRICS) {
+    write(
+      name,
+      type,
+      help,
+      Object.entries(stats.targets).map(([target, values]) => ({
+        labels: { target },
+        value: values[field],
+      })),
+    );
+  }
+
+  for (const [name, help, field] of METHOD_METRICS) {
+    write(
+      name,
+      'counter',
+      help,
+      Object.entries(stats.methods).map(([method, values]) => ({
+        labels: { method },
+        value: values?.[field] ?? 0,
+      })),
+    );
+  }
+
+  write(
+    'delivery_latency_ms',
+    'summary',
+    'Delivery latency over recent deliveries, retries included.',
+    [
+      { labels: { quantile: '0.5' }, value: stats.latency.p50 },
+      { labels: { quantile: '0.9' }, value: stats.latency.p90 },
+      { labels: { quantile: '0.99' }, value: stats.latency.p99 },
+      { labels: { quantile: '1' }, value: stats.latency.max },
+      { labels: {}, value: stats.latency.totalMs, suffix: '_sum' },
+      { labels: {}, value: stats.latency.totalCount, suffix: '_count' },
+    ],
+  );
+  write(
+    'circuit_state',
+    'gauge',
+    'Circuit breaker state (1 for the current state).',
+    CIRCUIT_STATES.map((state) => ({
+      labels: { state },
+      value: stats.circuitBreaker.state === state ? 1 : 0,
+    })),
+  );
+  write('circuit_open_total', 'counter', 'Times the circuit breaker opened.', [
+    { labels: {}, value: stats.circuitBreaker.openCount },
+  ]);
+  write('circuit_rejected_total', 'counter', 'Requests rejected while the circuit was open.', [
+    { labels: {}, value: stats.circuitBreaker.rejectedRequests },
+  ]);
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Создаёт HTTP-обработчик, отдающий метрики транспорта в формате Prometheus.
+ * Подходит для http.createServer, Express/Nest (`@Res()`) и Fastify (`reply.raw`).
+ *
+ * @param source Поток транспорта или функция, возвращающая статистику.
+ * @param options Префикс и постоянные метки.
+ * @returns Обработчик `(request, response) => void`.
+ */
+export function createMetricsHandler(
+  source: TelegramStatsSource,
+  options: PrometheusMetricsOptions = {},
+): PrometheusMetricsHandler {
+  const getStats = typeof source === 'function' ? source : () => source.getStats();
+
+  return (_request, response) => {
+    let body: string;
+    try {
+      body = formatPrometheusMetrics(getStats(), options);
+    } catch (error) {
+      response.statusCode = 500;
+      response.setHeader('content-type', 'text/plain; charset=utf-8');
+      response.end(`Не удалось собрать метрики: ${(error as Error)?.message ?? String(error)}\n`);
+      return;
+    }
+    response.statusCode = 200;
+    response.setHeader('content-type', PROMETHEUS_CONTENT_TYPE);
+    response.end(body);
+  };
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
@@ -1,16 +1,27 @@
-import { buildCompactMessage, buildDefaultMessage } from './formatter';
+import { buildCompactMessage, buildDefaultMessage, buildHttpMessage } from './formatter';
 import {
   FormatMessageInput,
   FormatMessageResult,
   NormalizedOptions,
   TelegramInputFile,
+  TelegramMediaField,
 } from './types';
-import { truncateHtml } from './utils';
+import {
+  getMediaFileDefaults,
+  MEDIA_METHOD_FIELDS,
+  TelegramMediaMethod,
+  truncateFormattedText,
+} from './utils';
 
 export interface MediaFormatterOptions {
-  /** Ключ, указывающий тип сообщения (text/photo/document). */
+  /** Ключ, указывающий тип сообщения (text/photo/document/video/audio/voice/animation/mediaGroup). */
   typeKey?: string;
-  /** Ключ с URL медиа (photo/document). */
+  /**
+   * Ключ с массивом элементов альбома для messageType=mediaGroup.
+   * Каждый элемент описывается теми же ключами, что и одиночное медиа (typeKey, urlKey, bufferKey и т.д.).
+   */
+  mediaItemsKey?: string;
+  /** Ключ с URL медиа. */
   urlKey?: string;
   /** Ключ с бинарным содержимым медиа (Buffer, Uint8Array, ArrayBuffer или TelegramInputFile). */
   bufferKey?: string;
@@ -25,6 +36,7 @@ export interface MediaFormatterOptions {
 }
 
 const DEFAULT_TYPE_KEY = 'messageType';
+const DEFAULT_MEDIA_ITEMS_KEY = 'mediaItems';
 const DEFAULT_URL_KEY = 'mediaUrl';
 const DEFAULT_BUFFER_KEY = 'mediaBuffer';
 const DEFAULT_FILENAME_KEY = 'mediaFilename';
@@ -39,7 +51,8 @@ type BuiltInMessageBuilder = (
 
 /**
  * Форматтер, который автоматически выбирает метод Telegram Bot API исходя из описания медиа в логе.
- * Ожидается схема вида: `{ messageType: 'photo' | 'document' | 'text', mediaUrl?, mediaBuffer?, caption? }`.
+ * Ожидается схема вида: `{ messageType: 'photo' | 'document' | 'video' | 'audio' | 'voice' | 'animation' | 'text', mediaUrl?, mediaBuffer?, caption? }`
+ * или `{ messageType: 'mediaGroup', mediaItems: [{ messageType, mediaUrl?, mediaBuffer? }, ...] }` для альбома.
  *
  * @param options Настройки для кастомизации ключей и ограничений.
  * @returns Функция форматтера, совместимая с transport.formatMessage.
@@ -62,11 +75,22 @@ export function createVerboseFormatter(
   return createStructuredFormatter(buildDefaultMessage, options);
 }
 
+/**
+ * Форматтер для логов pino-http, Fastify и Nest: строка запроса со статусом и временем ответа
+ * над подробным форматом. Поддерживает те же медиа-ключи, что и остальные пресеты.
+ */
+export function createHttpFormatter(
+  options: MediaFormatterOptions = {},
+): (input: FormatMessageInput) => Promise<FormatMessageResult> | FormatMessageResult {
+  return createStructuredFormatter(buildHttpMessage, options);
+}
+
 function createStructuredFormatter(
   buildTextMessage: BuiltInMessageBuilder,
   options: MediaFormatterOptions = {},
 ): (input: FormatMessageInput) => Promise<FormatMessageResult> | FormatMessageResult {
   const typeKey = options.typeKey ?? DEFAULT_TYPE_KEY;
+  const mediaItemsKey = options.mediaItemsKey ?? DEFAULT_MEDIA_ITEMS_KEY;
   const urlKey = options.urlKey ?? DEFAULT_URL_KEY;
   const bufferKey = options.bufferKey ?? DEFAULT_BUFFER_KEY;
   const filenameKey = options.filenameKey ?? DEFAULT_FILENAME_KEY;
@@ -74,63 +98,104 @@ function createStructuredFormatter(
   const captionKey = options.captionKey ?? DEFAULT_CAPTION_KEY;
   const captionLimit = options.captionMaxLength ?? DEFAULT_CAPTION_LIMIT;
 
+  const readMessageType = (record: Record<string, unknown>) => {
+    const typeValue = record[typeKey];
+    return typeof typeValue === 'string' ? typeValue.toLowerCase() : undefined;
+  };
+
+  const readMedia = (record: Record<string, unknown>, field: TelegramMediaField) => {
+    const defaults = getMediaFileDefaults(field);
+    return resolveMediaInput(
+      readString(record[urlKey]),
+      record[bufferKey],
+      readString(record[filenameKey]) ?? defaults.filename,
+      readString(record[contentTypeKey]) ?? defaults.contentType,
+    );
+  };
+
   return (input) => {
     const base = buildTextMessage(input, input.options);
     const record = input.log as Record<string, unknown>;
 
-    const typeValue = record[typeKey];
-    const messageType = typeof typeValue === 'string' ? typeValue.toLowerCase() : undefined;
-    if (messageType !== 'photo' && messageType !== 'document') {
+    const messageType = readMessageType(record);
+    const mediaMethod = messageType ? resolveMediaMethod(messageType) : undefined;
+    if (!mediaMethod && messageType !== 'mediagroup') {
       return base;
     }
 
-    const mediaUrl = readString(record[urlKey]);
-    const mediaBuffer = record[bufferKey];
-    const filenameFromLog = readString(record[filenameKey]);
-    const contentTypeFromLog = readString(record[contentTypeKey]);
     const captionSource = readString(record[captionKey]) ?? base.text;
-    const caption = truncateCaption(captionSource, captionLimit);
+    const caption = truncateCaption(captionSource, captionLimit, input.options.parseMode);
 
     const extra = { ...(base.extra ?? {}) } as Record<string, unknown>;
 
-    if (messageType === 'photo') {
-      const mediaValue = resolveMediaInput(
-        mediaUrl,
-        mediaBuffer,
-        filenameFromLog ?? 'photo.jpg',
-        contentTypeFromLog ?? 'image/jpeg',
-      );
-      if (!mediaValue) {
+    if (!mediaMethod) {
+      const items = Array.isArray(record[mediaItemsKey])
+        ? (record[mediaItemsKey] as unknown[])
+        : [];
+      const media: Array<{ type: 'photo' | 'document'; media: string | TelegramInputFile }> = [];
+      for (const item of items) {
+        if (!item || typeof item !== 'object') {
+          continue;
+        }
+        const itemRecord = item as Record<string, unknown>;
+        const itemType = readMessageType(itemRecord) === 'photo' ? 'photo' : 'document';
+        const mediaValue = readMedia(itemRecord, itemType);
+        if (mediaValue) {
+          media.push({ type: itemType, media: mediaValue });
+        }
+      }
+      if (media.length === 0) {
         return base;
       }
-      extra.photo = mediaValue;
+      if (media.length === 1) {
+        // Альбом из одного элемента Telegram не принимает — отправляем обычное медиа.
+        const [{ type, media: single }] = media;
+        extra[type] = single;
+        extra.caption = caption;
+        return {
+          text: caption,
+          method: type === 'photo' ? 'sendPhoto' : 'sendDocument',
+          extra,
+        };
+      }
+      extra.media = media;
       extra.caption = caption;
       return {
         text: caption,
-        method: 'sendPhoto',
+        method: 'sendMediaGroup',
         extra,
       };
     }
 
-    const mediaValue = resolveMediaInput(
-      mediaUrl,
-      mediaBuffer,
-      filenameFromLog ?? 'document.bin',
-      contentTypeFromLog ?? 'application/octet-stream',
-    );
+    const field = MEDIA_METHOD_FIELDS[mediaMethod];
+    const mediaValue = readMedia(record, field);
     if (!mediaValue) {
       return base;
     }
-    extra.document = mediaValue;
+
+    extra[field] = mediaValue;
     extra.caption = caption;
     return {
       text: caption,
-      method: 'sendDocument',
+      method: mediaMethod,
       extra,
     };
   };
 }
 
+/**
+ * Находит метод Bot API для значения messageType (photo → sendPhoto и т.д.).
+ * Таблица читается при вызове, а не при загрузке модуля: utils и presets импортируют друг друга.
+ *
+ * @param messageType Тип сообщения в нижнем регистре.
+ * @returns Метод отправки медиа или undefined для неизвестного типа.
+ */
+function resolveMediaMethod(messageType: string): TelegramMediaMethod | undefined {
+  return (Object.keys(MEDIA_METHOD_FIELDS) as TelegramMediaMethod[]).find(
+    (method) => MEDIA_METHOD_FIELDS[method] === messageType,
+  );
+}
+
 /**
  * Приводит медиа-поля к допустимому виду (URL или TelegramInputFile).
  *
@@ -272,12 +337,17 @@ function readString(value: unknown): string | undefined {
  *
  * @param text Подпись, полученная от пользователя.
  * @param limit Максимально допустимая длина.
+ * @param parseMode Режим разметки подписи.
  * @returns Усечённая подпись.
  */
-function truncateCaption(text: string, limit: number): string {
+function truncateCaption(
+  text: string,
+  limit: number,
+  parseMode: NormalizedOptions['parseMode'],
+): string {
   if (text.length <= limit) {
     return text;
   }
-  const { text: truncated } = truncateHtml(text, limit);
+  const { text: truncated } = truncateFormattedText(text, limit, parseMode);
   return truncated;
 }
@@ -0,0 +1,81 @@
+import { NormalizedQuietHours, PinoLog } from './types';
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Проверяет, попадает ли момент времени в тихие часы расписания.
+ * Интервал, переходящий через полночь, относится к дню, в который он начался:
+ * `22:00-08:00` по пятницам длится до 08:00 субботы.
+ *
+ * @param schedule Нормализованное расписание.
+ * @param time Момент времени (мс с начала эпохи).
+ */
+export function isQuietTime(schedule: NormalizedQuietHours, time: number): boolean {
+  const { weekday, minutes } = resolveLocalTime(schedule.timezone, time);
+  const previousWeekday = (weekday + 6) % 7;
+
+  return schedule.ranges.some(({ from, to }) => {
+    if (from < to) {
+      return schedule.days.includes(weekday) && minutes >= from && minutes < to;
+    }
+    return (
+      (schedule.days.includes(weekday) && minutes >= from) ||
+      (schedule.days.includes(previousWeekday) && minutes < to)
+    );
+  });
+}
+
+/**
+ * Проверяет, должна ли запись уведомлять даже в тихие часы.
+ *
+ * @param schedule Нормализованное расписание.
+ * @param log Запись Pino.
+ */
+export function isAboveNotifyLevel(schedule: NormalizedQuietHours, log: PinoLog): boolean {
+  return (
+    schedule.notifyLevel !== undefined &&
+    Number.isFinite(log.level) &&
+    log.level >= schedule.notifyLevel
+  );
+}
+
+/**
+ * Создаёт форматтер даты для часового пояса; бросает RangeError для неизвестного пояса.
+ *
+ * @param timezone IANA-идентификатор часового пояса.
+ */
+export function getTimeZoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function resolveLocalTime(timezone: string, time: number): { weekday: number; minutes: number } {
+  const parts = getTimeZoneFormatter(timezone).formatToParts(time);
+  const read = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  return {
+    weekday: WEEKDAY_INDEX[read('weekday')] ?? 0,
+    minutes: (Number(read('hour')) % 24) * 60 + Number(read('minute')),
+  };
+}
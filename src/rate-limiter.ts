@@ -1,14 +1,80 @@
 import { TelegramQueueOverflowStrategy } from './types';
 
+interface RateLimiterOptions {
+  /** Общий лимит бота, сообщений в секунду; 0 отключает глобальный bucket. */
+  globalPerSecond?: number;
+  /** Лимит для групп и каналов, сообщений в минуту; 0 отключает bucket. */
+  groupPerMinute?: number;
+  /** Лимит для личных чатов, сообщений в секунду; 0 отключает bucket. */
+  privatePerSecond?: number;
+  now?: () => number;
+}
+
+const GLOBAL_BUCKET_KEY = '*';
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+/**
+ * Token bucket с непрерывным пополнением: capacity токенов за intervalMs.
+ * Токены резервируются заранее (баланс может уйти в минус), поэтому последовательные
+ * вызовы получают нарастающие задержки и не превышают лимит даже при ожидании.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly intervalMs: number,
+    now: number,
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Резервирует один токен на момент at.
+   *
+   * @param at Момент, на который планируется отправка.
+   * @returns Дополнительная задержка (мс) до появления токена.
+   */
+  reserve(at: number): number {
+    const elapsed = Math.max(0, at - this.updatedAt);
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.capacity) / this.intervalMs,
+    );
+    this.updatedAt = Math.max(this.updatedAt, at);
+    this.tokens -= 1;
+    if (this.tokens >= 0) {
+      return 0;
+    }
+    return Math.ceil((-this.tokens * this.intervalMs) / this.capacity);
+  }
+}
+
 /**
- * Простой ограничитель частоты, который контролирует минимальный интервал между вызовами по ключу.
+ * Ограничитель частоты с учётом лимитов Telegram: общий token bucket бота, bucket на каждый чат
+ * (для групп и каналов — отдельный, более строгий лимит) и минимальный интервал между сообщениями.
+ * Пауза из retry_after действует на весь bucket чата или на всего бота, а не только на текущий повтор.
  *
  * @remarks Используется транспортом для предотвращения rate limit от Telegram.
  */
 export class RateLimiter {
-  private lastExecution = new Map<string, number>();
-
-  constructor(private readonly now: () => number = () => Date.now()) {}
+  private readonly lastExecution = new Map<string, number>();
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly pausedUntil = new Map<string, number>();
+  private readonly globalPerSecond: number;
+  private readonly groupPerMinute: number;
+  private readonly privatePerSecond: number;
+  private readonly now: () => number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.globalPerSecond = options.globalPerSecond ?? 0;
+    this.groupPerMinute = options.groupPerMinute ?? 0;
+    this.privatePerSecond = options.privatePerSecond ?? 0;
+    this.now = options.now ?? (() => Date.now());
+  }
 
   /**
    * Ждёт необходимую паузу перед выполнением следующей задачи для указанного ключа.
@@ -19,12 +85,82 @@ export class RateLimiter {
   async wait(key: string, minDelay: number): Promise<void> {
     const current = this.now();
     const last = this.lastExecution.get(key) ?? 0;
-    const elapsed = current - last;
-    if (elapsed < minDelay) {
-      await new Promise((resolve) => setTimeout(resolve, minDelay - elapsed));
+    let delay = Math.max(
+      0,
+      minDelay - (current - last),
+      (this.pausedUntil.get(key) ?? 0) - current,
+      (this.pausedUntil.get(GLOBAL_BUCKET_KEY) ?? 0) - current,
+    );
+
+    const at = current + delay;
+    delay += Math.max(
+      this.getGlobalBucket(current)?.reserve(at) ?? 0,
+      this.getChatBucket(key, current)?.reserve(at) ?? 0,
+    );
+
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
     this.lastExecution.set(key, this.now());
   }
+
+  /**
+   * Приостанавливает отправку в чат (например, по retry_after из ответа 429).
+   * Пауза действует на всех отправителей этого чата.
+   *
+   * @param key Идентификатор чата.
+   * @param durationMs Длительность паузы в миллисекундах.
+   */
+  pause(key: string, durationMs: number): void {
+    const until = this.now() + Math.max(0, durationMs);
+    this.pausedUntil.set(key, Math.max(this.pausedUntil.get(key) ?? 0, until));
+  }
+
+  /**
+   * Приостанавливает отправку во все чаты бота: retry_after из ответа 429 относится к боту целиком.
+   *
+   * @param durationMs Длительность паузы в миллисекундах.
+   */
+  pauseAll(durationMs: number): void {
+    this.pause(GLOBAL_BUCKET_KEY, durationMs);
+  }
+
+  private getGlobalBucket(now: number): TokenBucket | undefined {
+    if (this.globalPerSecond <= 0) {
+      return undefined;
+    }
+    return this.getBucket(GLOBAL_BUCKET_KEY, this.globalPerSecond, SECOND_MS, now);
+  }
+
+  private getChatBucket(key: string, now: number): TokenBucket | undefined {
+    if (isGroupChatKey(key)) {
+      return this.groupPerMinute > 0
+        ? this.getBucket(key, this.groupPerMinute, MINUTE_MS, now)
+        : undefined;
+    }
+    return this.privatePerSecond > 0
+      ? this.getBucket(key, this.privatePerSecond, SECOND_MS, now)
+      : undefined;
+  }
+
+  private getBucket(key: string, capacity: number, intervalMs: number, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(capacity, intervalMs, now);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * Группы, супергруппы и каналы имеют отрицательный chat_id; публичные каналы и группы
+ * также адресуются по @username.
+ *
+ * @param key Строковое представление chat_id.
+ */
+function isGroupChatKey(key: string): boolean {
+  return key.startsWith('-') || key.startsWith('@');
 }
 
 /**
@@ -33,6 +169,8 @@ export class RateLimiter {
 interface TaskQueueOptions {
   maxSize?: number;
   overflowStrategy?: TelegramQueueOverflowStrategy;
+  /** Задачи с приоритетом не ниже этого значения никогда не отбрасываются при переполнении. */
+  protectedPriority?: number;
 }
 
 interface TaskHandle {
@@ -42,12 +180,13 @@ interface TaskHandle {
 
 interface TaskQueueEntry {
   task: () => Promise<void>;
+  priority: number;
   resolveReady: () => void;
   resolveDone: () => void;
   rejectDone: (error: unknown) => void;
 }
 
-class TaskQueueOverflowError extends Error {
+export class TaskQueueOverflowError extends Error {
   readonly code = 'QUEUE_OVERFLOW';
 
   constructor(
@@ -61,26 +200,36 @@ class TaskQueueOverflowError extends Error {
   }
 }
 
+/**
+ * Очередь задач с приоритетами: задачи с большим приоритетом исполняются раньше,
+ * при равном приоритете сохраняется порядок добавления. При переполнении отбрасываются
+ * задачи с наименьшим приоритетом, а защищённые (protectedPriority) не отбрасываются никогда.
+ */
 export class TaskQueue {
   private readonly maxSize: number;
   private readonly overflowStrategy: TelegramQueueOverflowStrategy;
+  private readonly protectedPriority: number;
   private readonly entries: TaskQueueEntry[] = [];
   private readonly idleResolvers: Array<() => void> = [];
   private readonly spaceResolvers: Array<() => void> = [];
   private isRunning = false;
+  /** Задачи, которые ещё ждут места в очереди (overflowStrategy=block). */
+  private pendingEnqueues = 0;
 
   constructor(options: TaskQueueOptions = {}) {
     this.maxSize = options.maxSize ?? Number.POSITIVE_INFINITY;
     this.overflowStrategy = options.overflowStrategy ?? 'block';
+    this.protectedPriority = options.protectedPriority ?? Number.POSITIVE_INFINITY;
   }
 
   /**
    * Добавляет задачу в очередь.
    *
    * @param task Асинхронная функция, которую нужно исполнить последовательно.
+   * @param priority Приоритет задачи (для записей логов — уровень Pino).
    * @returns Набор промисов для ожидания постановки в очередь и финального завершения задачи.
    */
-  push(task: () => Promise<void>): TaskHandle {
+  push(task: () => Promise<void>, priority = 0): TaskHandle {
     let resolveReady = () => {};
     const ready = new Promise<void>((resolve) => {
       resolveReady = resolve;
@@ -95,23 +244,35 @@ export class TaskQueue {
 
     const entry: TaskQueueEntry = {
       task,
+      priority,
       resolveReady,
       resolveDone,
       rejectDone,
     };
 
-    void this.enqueue(entry);
+    this.pendingEnqueues += 1;
+    void this.enqueue(entry).finally(() => {
+      this.pendingEnqueues -= 1;
+      this.resolveIdle();
+    });
 
     return { ready, done };
   }
 
+  /**
+   * Количество задач, ожидающих исполнения (без текущей).
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
   /**
    * Возвращает промис, резолвящийся, когда очередь станет пустой.
    *
    * @returns Промис, сигнализирующий завершение всех поставленных задач.
    */
   onIdle(): Promise<void> {
-    if (!this.isRunning && this.entries.length === 0) {
+    if (this.isIdle()) {
       return Promise.resolve();
     }
 
@@ -123,14 +284,15 @@ export class TaskQueue {
   private async enqueue(entry: TaskQueueEntry): Promise<void> {
     if (this.overflowStrategy === 'block') {
       await this.waitForSpace();
-      this.entries.push(entry);
+      this.insert(entry);
       entry.resolveReady();
       this.start();
       return;
     }
 
     if (this.isFull()) {
-      if (this.overflowStrategy === 'dropNewest') {
+      const victimIndex = this.findEvictionIndex(entry);
+      if (victimIndex === -1) {
         entry.resolveReady();
         queueMicrotask(() => {
           entry.rejectDone(new TaskQueueOverflowError(this.maxSize, this.overflowStrategy));
@@ -138,15 +300,64 @@ export class TaskQueue {
         return;
       }
 
-      const droppedEntry = this.entries.shift();
-      droppedEntry?.rejectDone(new TaskQueueOverflowError(this.maxSize, this.overflowStrategy));
+      if (victimIndex !== undefined) {
+        const [droppedEntry] = this.entries.splice(victimIndex, 1);
+        droppedEntry.rejectDone(new TaskQueueOverflowError(this.maxSize, this.overflowStrategy));
+      }
     }
 
-    this.entries.push(entry);
+    this.insert(entry);
     entry.resolveReady();
     this.start();
   }
 
+  /**
+   * Вставляет задачу после всех задач с таким же или большим приоритетом.
+   *
+   * @param entry Новая задача.
+   */
+  private insert(entry: TaskQueueEntry): void {
+    let index = this.entries.length;
+    while (index > 0 && this.entries[index - 1].priority < entry.priority) {
+      index -= 1;
+    }
+    this.entries.splice(index, 0, entry);
+  }
+
+  /**
+   * Выбирает, что отбросить при переполнении: задачу с наименьшим приоритетом
+   * (самую старую для dropOldest, самую новую для dropNewest) или саму новую задачу.
+   *
+   * @param entry Добавляемая задача.
+   * @returns Индекс отбрасываемой задачи в очереди, -1 — отбросить новую задачу,
+   * undefined — принять новую задачу сверх лимита (все кандидаты защищены).
+   */
+  private findEvictionIndex(entry: TaskQueueEntry): number | undefined {
+    const isProtected = entry.priority >= this.protectedPriority;
+    const tail = this.entries.length - 1;
+    const lowest = tail >= 0 ? this.entries[tail].priority : undefined;
+    const canEvict = lowest !== undefined && lowest < this.protectedPriority;
+
+    if (!canEvict) {
+      return isProtected ? undefined : -1;
+    }
+
+    const isIncomingPreferred =
+      this.overflowStrategy === 'dropNewest' ? entry.priority <= lowest : entry.priority < lowest;
+    if (isIncomingPreferred && !isProtected) {
+      return -1;
+    }
+
+    if (this.overflowStrategy === 'dropNewest') {
+      return tail;
+    }
+    let index = tail;
+    while (index > 0 && this.entries[index - 1].priority === lowest) {
+      index -= 1;
+    }
+    return index;
+  }
+
   private start(): void {
     if (this.isRunning) {
       return;
@@ -200,8 +411,15 @@ export class TaskQueue {
     }
   }
 
+  /**
+   * Проверяет, что в очереди нет ни исполняемых, ни ожидающих задач.
+   */
+  isIdle(): boolean {
+    return !this.isRunning && this.entries.length === 0 && this.pendingEnqueues === 0;
+  }
+
   private resolveIdle(): void {
-    if (this.isRunning || this.entries.length > 0) {
+    if (!this.isIdle()) {
       return;
     }
 
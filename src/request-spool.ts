@@ -0,0 +1,296 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { TelegramRequest } from './types';
+
+interface RequestSpoolOptions {
+  dir: string;
+  maxBytes: number;
+  maxAgeMs: number;
+  now?: () => number;
+}
+
+export interface SpooledRequest {
+  id: string;
+  createdAt: number;
+  request: TelegramRequest;
+}
+
+interface SpoolFileContent {
+  createdAt: number;
+  request: TelegramRequest;
+}
+
+const ENTRY_EXTENSION = '.json';
+const TEMP_EXTENSION = '.tmp';
+const BINARY_MARKER = '$binary';
+
+/** Метки экземпляров spool этого процесса, которые ещё не закрыты. */
+const activeOwners = new Set<string>();
+
+interface EntryOwner {
+  pid: number;
+  /** Метка экземпляра; у записей старого формата `createdAt-pid-sequence` её нет. */
+  nonce?: string;
+}
+
+/**
+ * Файловое хранилище запросов, которые ещё не доставлены в Telegram.
+ * Каждая запись — отдельный JSON-файл; имя начинается с времени создания, поэтому
+ * лексикографический порядок файлов совпадает с порядком отправки.
+ * Бинарные медиа сохраняются в base64 и восстанавливаются как Uint8Array.
+ *
+ * В имени записи есть pid и случайная метка экземпляра, поэтому несколько транспортов
+ * могут делить один каталог: каждый переотправляет свои записи и забирает себе записи
+ * закрытых экземпляров и завершившихся процессов.
+ */
+export class RequestSpool {
+  private readonly dir: string;
+  private readonly maxBytes: number;
+  private readonly maxAgeMs: number;
+  private readonly now: () => number;
+  private readonly nonce = randomBytes(4).toString('hex');
+  private sequence = 0;
+  private ready?: Promise<void>;
+  /** Свои записи в порядке создания с размерами; строится при первом обращении к каталогу. */
+  private index?: Map<string, number>;
+  private indexedBytes = 0;
+
+  constructor(options: RequestSpoolOptions) {
+    this.dir = options.dir;
+    this.maxBytes = options.maxBytes;
+    this.maxAgeMs = options.maxAgeMs;
+    this.now = options.now ?? (() => Date.now());
+    activeOwners.add(this.nonce);
+  }
+
+  /**
+   * Сохраняет запрос на диск и применяет лимиты размера и возраста.
+   *
+   * @param request Запрос к Telegram.
+   * @returns Идентификатор записи или undefined, если запрос сам по себе больше maxBytes.
+   */
+  async add(request: TelegramRequest): Promise<string | undefined> {
+    if (!this.index) {
+      await this.prune();
+    }
+
+    const createdAt = this.now();
+    const content = JSON.stringify({ createdAt, request }, replaceBinary);
+    const size = Buffer.byteLength(content);
+    if (size > this.maxBytes) {
+      return undefined;
+    }
+
+    const id = this.createId(createdAt);
+    const file = this.resolvePath(id);
+    await writeFile(`${file}${TEMP_EXTENSION}`, content);
+    await rename(`${file}${TEMP_EXTENSION}`, file);
+    this.track(id, size);
+    await this.enforceLimits();
+    return id;
+  }
+
+  /**
+   * Удаляет запись после доставки или окончательного отказа Telegram.
+   *
+   * @param id Идентификатор записи.
+   */
+  async remove(id: string): Promise<void> {
+    await unlink(this.resolvePath(id)).catch(ignoreMissingFile);
+    const size = this.index?.get(id);
+    if (size !== undefined) {
+      this.index?.delete(id);
+      this.indexedBytes -= size;
+    }
+  }
+
+  /**
+   * Отмечает экземпляр закрытым: его оставшиеся записи переотправит другой экземпляр
+   * с тем же каталогом.
+   */
+  close(): void {
+    activeOwners.delete(this.nonce);
+  }
+
+  /**
+   * Возвращает сохранённые запросы в порядке создания, предварительно удалив просроченные
+   * и не помещающиеся в maxBytes записи. Повреждённые файлы удаляются.
+   */
+  async list(): Promise<SpooledRequest[]> {
+    const ids = await this.prune();
+    const entries: SpooledRequest[] = [];
+
+    for (const id of ids) {
+      try {
+        const raw = await readFile(this.resolvePath(id), 'utf8');
+        const content = JSON.parse(raw, reviveBinary) as SpoolFileContent;
+        entries.push({ id, createdAt: content.createdAt, request: content.request });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          await this.remove(id);
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Перечитывает каталог: забирает записи закрытых экземпляров и завершившихся процессов,
+   * затем удаляет свои записи старше maxAgeMs и самые старые записи сверх maxBytes.
+   * Записи работающих экземпляров не трогает.
+   *
+   * @returns Идентификаторы оставшихся своих записей в порядке создания.
+   */
+  private async prune(): Promise<string[]> {
+    await this.ensureDir();
+
+    const files = (await readdir(this.dir)).filter((name) => name.endsWith(ENTRY_EXTENSION));
+    const owned: Array<{ id: string; size: number }> = [];
+    for (const file of files) {
+      let id = file.slice(0, -ENTRY_EXTENSION.length);
+      const owner = parseOwner(id);
+      if (owner.nonce !== this.nonce) {
+        if (!isAbandoned(owner)) {
+          continue;
+        }
+        const adoptedId = this.createId(parseCreatedAt(id));
+        try {
+          await rename(this.resolvePath(id), this.resolvePath(adoptedId));
+        } catch (error) {
+          // Запись уже забрал другой экземпляр.
+          ignoreMissingFile(error);
+          continue;
+        }
+        id = adoptedId;
+      }
+      try {
+        const { size } = await stat(this.resolvePath(id));
+        owned.push({ id, size });
+      } catch (error) {
+        ignoreMissingFile(error);
+      }
+    }
+
+    owned.sort((left, right) => (left.id < right.id ? -1 : left.id > right.id ? 1 : 0));
+    this.index = new Map();
+    this.indexedBytes = 0;
+    for (const { id, size } of owned) {
+      this.track(id, size);
+    }
+    await this.enforceLimits();
+
+    return [...this.index.keys()];
+  }
+
+  /**
+   * Удаляет самые старые свои записи, пока они просрочены или не укладываются в maxBytes.
+   * Работает по индексу в памяти, без чтения каталога.
+   */
+  private async enforceLimits(): Promise<void> {
+    if (!this.index) {
+      return;
+    }
+    const threshold = this.now() - this.maxAgeMs;
+    for (const id of [...this.index.keys()]) {
+      if (parseCreatedAt(id) >= threshold && this.indexedBytes <= this.maxBytes) {
+        break;
+      }
+      await this.remove(id);
+    }
+  }
+
+  private track(id: string, size: number): void {
+    this.index?.set(id, size);
+    this.indexedBytes += size;
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(this.dir, { recursive: true }).then(() => undefined);
+      this.ready.catch(() => {
+        this.ready = undefined;
+      });
+    }
+    return this.ready;
+  }
+
+  private createId(createdAt: number): string {
+    const sequence = this.sequence;
+    this.sequence += 1;
+    return [
+      String(createdAt).padStart(13, '0'),
+      String(process.pid).padStart(7, '0'),
+      this.nonce,
+      String(sequence).padStart(8, '0'),
+    ].join('-');
+  }
+
+  private resolvePath(id: string): string {
+    return join(this.dir, `${id}${ENTRY_EXTENSION}`);
+  }
+}
+
+function parseCreatedAt(id: string): number {
+  const createdAt = Number(id.split('-')[0]);
+  return Number.isFinite(createdAt) ? createdAt : 0;
+}
+
+function parseOwner(id: string): EntryOwner {
+  const parts = id.split('-');
+  return { pid: Number(parts[1]), nonce: parts.length > 3 ? parts[2] : undefined };
+}
+
+/**
+ * Запись брошена, если её экземпляр в этом процессе закрыт или её процесс завершился.
+ */
+function isAbandoned(owner: EntryOwner): boolean {
+  if (owner.pid === process.pid) {
+    return owner.nonce === undefined || !activeOwners.has(owner.nonce);
+  }
+  return !isProcessAlive(owner.pid);
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    // Сигнал 0 ничего не отправляет, а только проверяет, что процесс существует.
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function ignoreMissingFile(error: unknown): void {
+  if ((error as NodeJS.ErrnoException | undefined)?.code !== 'ENOENT') {
+    throw error;
+  }
+}
+
+/**
+ * Заменяет бинарные значения на `{ $binary: base64 }` до того, как Buffer.toJSON
+ * превратит их в массив чисел.
+ */
+function replaceBinary(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const original = this[key];
+  if (original instanceof Uint8Array || original instanceof ArrayBuffer) {
+    const bytes = original instanceof ArrayBuffer ? new Uint8Array(original) : original;
+    return { [BINARY_MARKER]: Buffer.from(bytes).toString('base64') };
+  }
+  return value;
+}
+
+function reviveBinary(_key: string, value: unknown): unknown {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>)[BINARY_MARKER] === 'string'
+  ) {
+    return new Uint8Array(Buffer.from((value as Record<string, string>)[BINARY_MARKER], 'base64'));
+  }
+  return value;
+}
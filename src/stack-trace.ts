@@ -0,0 +1,188 @@
+import { NormalizedOptions } from './types';
+
+/** Настройки обработки стека из нормализованных опций транспорта. */
+export type StackTraceOptions = Pick<
+  NormalizedOptions,
+  'stackFrameLimit' | 'collapseLibraryFrames' | 'stackRoot'
+>;
+
+/** Место в исходном коде проекта, на которое указывает кадр стека. */
+export interface SourceLocation {
+  /** Путь относительно stackRoot. */
+  file: string;
+  line: number;
+  column?: number;
+}
+
+interface StackLine {
+  text: string;
+  /** Сколько исходных кадров представляет строка (0 — не кадр). */
+  frames: number;
+  /** Исходная строка кадра до переписывания путей. */
+  source?: string;
+}
+
+const FRAME_PATTERN = /^\s*at\s/;
+const LIBRARY_FRAME_PATTERN = /node_modules[\\/]|\bnode:|\(internal[\\/]|^\s*at\s+internal[\\/]/;
+const FRAME_LOCATION_PATTERN = /\(?(?:file:\/\/)?([^\s()]+?):(\d+)(?::(\d+))?\)?$/;
+const FRAME_INDENT = '    ';
+
+/**
+ * Проверяет, что строка стека — кадр вида `at fn (file:line:column)`.
+ *
+ * @param line Строка стека.
+ */
+export function isStackFrame(line: string): boolean {
+  return FRAME_PATTERN.test(line);
+}
+
+/**
+ * Сокращает стек для сообщения: переписывает абсолютные пути относительно stackRoot,
+ * схлопывает подряд идущие кадры `node_modules` и `node:internal` в «… N library frames»
+ * и оставляет не больше stackFrameLimit кадров.
+ *
+ * @param stack Исходный стек.
+ * @param options Настройки обработки стека.
+ * @returns Сокращённый стек; строки сообщения до первого кадра не меняются.
+ */
+export function trimStackTrace(stack: string, options: StackTraceOptions): string {
+  return collectStackLines(stack, options)
+    .map((line) => line.text)
+    .join('\n');
+}
+
+/**
+ * Разбирает стек на строки сообщения, кадры и пометки о пропущенных кадрах
+ * в том виде, в каком они попадут в сообщение.
+ */
+function collectStackLines(stack: string, options: StackTraceOptions): StackLine[] {
+  const lines: StackLine[] = [];
+  let libraryFrames = 0;
+
+  const flushLibraryFrames = (): void => {
+    if (libraryFrames > 0) {
+      lines.push({ text: formatOmittedFrames(libraryFrames, 'library'), frames: libraryFrames });
+      libraryFrames = 0;
+    }
+  };
+
+  for (const line of stack.split('\n')) {
+    if (!isStackFrame(line)) {
+      flushLibraryFrames();
+      lines.push({ text: line, frames: 0 });
+      continue;
+    }
+    if (options.collapseLibraryFrames && LIBRARY_FRAME_PATTERN.test(line)) {
+      libraryFrames += 1;
+      continue;
+    }
+    flushLibraryFrames();
+    lines.push({ text: relativizeFrame(line, options.stackRoot), frames: 1, source: line });
+  }
+  flushLibraryFrames();
+
+  return limitFrames(lines, options.stackFrameLimit);
+}
+
+/**
+ * Оставляет не больше limit кадров в каждом сегменте стека: строка сообщения
+ * (например, «caused by: …» в стеке от pino-std-serializers) начинает новый сегмент.
+ */
+function limitFrames(lines: StackLine[], limit: number): StackLine[] {
+  if (limit <= 0) {
+    return lines;
+  }
+
+  const result: StackLine[] = [];
+  let kept = 0;
+  let omitted = 0;
+  const flushOmitted = (): void => {
+    if (omitted > 0) {
+      result.push({ text: formatOmittedFrames(omitted, 'more'), frames: omitted });
+      omitted = 0;
+    }
+  };
+
+  for (const line of lines) {
+    if (line.frames === 0) {
+      flushOmitted();
+      kept = 0;
+      result.push(line);
+    } else if (kept < limit) {
+      result.push(line);
+      kept += 1;
+    } else {
+      omitted += line.frames;
+    }
+  }
+  flushOmitted();
+  return result;
+}
+
+function formatOmittedFrames(count: number, kind: 'library' | 'more'): string {
+  return `${FRAME_INDENT}… ${count} ${kind} ${count === 1 ? 'frame' : 'frames'}`;
+}
+
+function relativizeFrame(line: string, root: string | undefined): string {
+  if (!root) {
+    return line;
+  }
+  return line.split(`file://${root}`).join('').split(root).join('');
+}
+
+/**
+ * Находит кадры стека, указывающие на файлы проекта под stackRoot (без node_modules).
+ * Берёт только кадры, оставшиеся в сокращённом стеке trimStackTrace, и пропускает повторы одного места.
+ *
+ * @param stack Исходный стек.
+ * @param options Настройки обработки стека; без stackRoot результат пуст.
+ * @returns Места в коде в порядке стека.
+ */
+export function extractSourceLocations(
+  stack: string,
+  options: StackTraceOptions,
+): SourceLocation[] {
+  const root = options.stackRoot;
+  if (!root) {
+    return [];
+  }
+
+  const locations: SourceLocation[] = [];
+  const seen = new Set<string>();
+  for (const { source } of collectStackLines(stack, options)) {
+    if (!source) {
+      continue;
+    }
+    const match = FRAME_LOCATION_PATTERN.exec(source.trim());
+    if (!match || !match[1].startsWith(root) || LIBRARY_FRAME_PATTERN.test(match[1])) {
+      continue;
+    }
+    const location: SourceLocation = {
+      file: match[1].slice(root.length).split('\\').join('/'),
+      line: Number(match[2]),
+      column: match[3] === undefined ? undefined : Number(match[3]),
+    };
+    const key = `${location.file}:${location.line}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      locations.push(location);
+    }
+  }
+  return locations;
+}
+
+/**
+ * Подставляет место в коде в шаблон ссылки: `{file}`, `{line}` и `{column}`.
+ *
+ * @param template Шаблон, например `https://github.com/acme/api/blob/abc123/{file}#L{line}`.
+ * @param location Место в коде.
+ */
+export function buildSourceUrl(template: string, location: SourceLocation): string {
+  return template
+    .split('{file}')
+    .join(encodeURI(location.file))
+    .split('{line}')
+    .join(String(location.line))
+    .split('{column}')
+    .join(String(location.column ?? 1));
+}
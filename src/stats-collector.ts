@@ -0,0 +1,202 @@
+import { isRateLimitError } from './telegram-client';
+import {
+  TelegramLatencyStats,
+  TelegramMethod,
+  TelegramMethodStats,
+  TelegramRequest,
+  TelegramRequestOf,
+  TelegramTargetStats,
+  TelegramTransportStats,
+} from './types';
+
+type TargetCounters = Omit<TelegramTargetStats, 'queueDepth'>;
+
+const LATENCY_SAMPLE_SIZE = 1024;
+
+/**
+ * Накапливает счётчики доставки по target и методам Bot API, а также выборку времени доставки.
+ * Ключ target совпадает с ключом очереди: `chatId:threadId`.
+ */
+export class StatsCollector {
+  private readonly targets = new Map<string, TargetCounters>();
+  private readonly methods = new Map<TelegramMethod, TelegramMethodStats>();
+  private readonly latencies: number[] = [];
+  private latencyCursor = 0;
+  private latencyTotalCount = 0;
+  private latencyTotalMs = 0;
+
+  /**
+   * Фиксирует успешную доставку запроса.
+   *
+   * @param request Отправленный запрос.
+   * @param latencyMs Время доставки с учётом повторов.
+   */
+  recordSent(request: TelegramRequest, latencyMs: number): void {
+    this.getTarget(resolveRequestTargetKey(request)).sent += 1;
+    this.getMethod(request.method).sent += 1;
+    this.recordLatency(latencyMs);
+  }
+
+  /**
+   * Фиксирует окончательную неудачу доставки.
+   *
+   * @param request Запрос, который не удалось доставить.
+   */
+  recordFailed(request: TelegramRequest): void {
+    this.getTarget(resolveRequestTargetKey(request)).failed += 1;
+    this.getMethod(request.method).failed += 1;
+  }
+
+  /**
+   * Фиксирует ошибку отдельной попытки: ответы 429 и повторы.
+   *
+   * @param request Запрос, для которого выполнялась попытка.
+   * @param error Ошибка попытки.
+   * @param willRetry Будет ли запрос повторён.
+   */
+  recordAttemptError(
+    request: TelegramRequestOf<TelegramMethod>,
+    error: unknown,
+    willRetry: boolean,
+  ): void {
+    const method = this.getMethod(request.method);
+    if (isRateLimitError(error)) {
+      method.rateLimited += 1;
+    }
+    if (willRetry) {
+      method.retried += 1;
+      this.getTarget(resolveRequestTargetKey(request)).retried += 1;
+    }
+  }
+
+  recordDeduplicated(targetKey: string): void {
+    this.getTarget(targetKey).deduplicated += 1;
+  }
+
+  recordSuppressed(targetKey: string): void {
+    this.getTarget(targetKey).suppressed += 1;
+  }
+
+  recordDropped(targetKey: string): void {
+    this.getTarget(targetKey).dropped += 1;
+  }
+
+  /**
+   * Собирает снимок статистики.
+   *
+   * @param queueDepths Текущая глубина очереди каждого target.
+   * @param circuitBreaker Состояние circuit breaker.
+   */
+  getStats(
+    queueDepths: Map<string, number>,
+    circuitBreaker: TelegramTransportStats['circuitBreaker'],
+  ): TelegramTransportStats {
+    const stats: TelegramTransportStats = {
+      queueDepth: 0,
+      sent: 0,
+      failed: 0,
+      retried: 0,
+      deduplicated: 0,
+      suppressed: 0,
+      dropped: 0,
+      rateLimited: 0,
+      targets: {},
+      methods: {},
+      latency: this.getLatencyStats(),
+      circuitBreaker,
+    };
+
+    const keys = new Set([...queueDepths.keys(), ...this.targets.keys()]);
+    for (const key of keys) {
+      const target: TelegramTargetStats = {
+        queueDepth: queueDepths.get(key) ?? 0,
+        ...(this.targets.get(key) ?? createTargetCounters()),
+      };
+      stats.targets[key] = target;
+      stats.queueDepth += target.queueDepth;
+      stats.sent += target.sent;
+      stats.failed += target.failed;
+      stats.retried += target.retried;
+      stats.deduplicated += target.deduplicated;
+      stats.suppressed += target.suppressed;
+      stats.dropped += target.dropped;
+    }
+
+    for (const [name, method] of this.methods) {
+      stats.methods[name] = { ...method };
+      stats.rateLimited += method.rateLimited;
+    }
+
+    return stats;
+  }
+
+  private recordLatency(latencyMs: number): void {
+    this.latencyTotalCount += 1;
+    this.latencyTotalMs += latencyMs;
+    if (this.latencies.length < LATENCY_SAMPLE_SIZE) {
+      this.latencies.push(latencyMs);
+      return;
+    }
+    this.latencies[this.latencyCursor] = latencyMs;
+    this.latencyCursor = (this.latencyCursor + 1) % LATENCY_SAMPLE_SIZE;
+  }
+
+  private getLatencyStats(): TelegramLatencyStats {
+    const sorted = [...this.latencies].sort((left, right) => left - right);
+    return {
+      count: sorted.length,
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      p99: percentile(sorted, 0.99),
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+      totalCount: this.latencyTotalCount,
+      totalMs: this.latencyTotalMs,
+    };
+  }
+
+  private getTarget(key: string): TargetCounters {
+    let target = this.targets.get(key);
+    if (!target) {
+      target = createTargetCounters();
+      this.targets.set(key, target);
+    }
+    return target;
+  }
+
+  private getMethod(name: TelegramMethod): TelegramMethodStats {
+    let method = this.methods.get(name);
+    if (!method) {
+      method = { sent: 0, failed: 0, retried: 0, rateLimited: 0 };
+      this.methods.set(name, method);
+    }
+    return method;
+  }
+}
+
+/**
+ * Ключ target для запроса: тот же формат `chatId:threadId`, что и у очередей транспорта.
+ *
+ * @param request Запрос к Telegram.
+ */
+export function resolveRequestTargetKey(request: TelegramRequestOf<TelegramMethod>): string {
+  const payload = request.payload as { chat_id: unknown; message_thread_id?: number };
+  return `${String(payload.chat_id)}:${payload.message_thread_id ?? ''}`;
+}
+
+function createTargetCounters(): TargetCounters {
+  return { sent: 0, failed: 0, retried: 0, deduplicated: 0, suppressed: 0, dropped: 0 };
+}
+
+/**
+ * Перцентиль по методу nearest-rank.
+ *
+ * @param sorted Отсортированная по возрастанию выборка.
+ * @param rank Доля от 0 до 1.
+ */
+function percentile(sorted: number[], rank: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(rank * sorted.length) - 1));
+  return sorted[index];
+}
@@ -1,13 +1,28 @@
-import { buildTelegramUrl, createRequestTimeout } from './utils';
+import { CircuitBreaker } from './circuit-breaker';
+import { RateLimiter } from './rate-limiter';
+import { StatsCollector } from './stats-collector';
+import {
+  buildTelegramUrl,
+  createRequestTimeout,
+  getMediaFileDefaults,
+  MEDIA_METHOD_FIELDS,
+} from './utils';
 import {
   NormalizedOptions,
   TelegramInputFile,
-  TelegramRequest,
+  TelegramInputMedia,
+  TelegramMediaField,
+  TelegramMessage,
+  TelegramMethod,
+  TelegramMethodResultMap,
+  TelegramRequestOf,
   TelegramSendPayload,
 } from './types';
 
 type FetchBody = Exclude<RequestInit['body'], null | undefined>;
 
+const MEDIA_FIELDS: ReadonlySet<string> = new Set(Object.values(MEDIA_METHOD_FIELDS));
+
 interface SerializedBuffer {
   type: 'Buffer';
   data: number[];
@@ -20,6 +35,19 @@ export interface TelegramErrorResponse {
   parameters?: Record<string, unknown>;
 }
 
+interface TelegramApiResponse extends TelegramErrorResponse {
+  result?: unknown;
+}
+
+/**
+ * Коды, которыми транспорт помечает особые ситуации доставки.
+ * PARSE_ENTITIES_FALLBACK — Telegram не разобрал разметку, сообщение переотправлено без parse_mode.
+ * CIRCUIT_OPEN — circuit breaker разомкнут, запрос отклонён без обращения к Telegram.
+ */
+export type TelegramDeliveryErrorCode = 'PARSE_ENTITIES_FALLBACK' | 'CIRCUIT_OPEN';
+
+const PARSE_ENTITIES_PATTERN = /can't parse entities/i;
+
 /**
  * Исключение, сигнализирующее о неудачной доставке сообщения в Telegram Bot API.
  *
@@ -29,6 +57,8 @@ export interface TelegramErrorResponse {
  * @param cause Исходная ошибка сети или парсинга.
  */
 export class TelegramDeliveryError extends Error {
+  code?: TelegramDeliveryErrorCode;
+
   constructor(
     message: string,
     readonly response?: TelegramErrorResponse,
@@ -42,23 +72,116 @@ export class TelegramDeliveryError extends Error {
   }
 }
 
+/**
+ * Определяет, временная ли ошибка доставки: таймаут, сетевой сбой, 429 или 5xx.
+ * Такие запросы имеет смысл повторять и сохранять в spool.
+ *
+ * @param error Ошибка отправки.
+ * @returns True, если ошибка временная или связана с rate limit.
+ */
+export function isTransientDeliveryError(error: unknown): boolean {
+  if (error instanceof TelegramDeliveryError) {
+    if (error.isTimeout) {
+      return true;
+    }
+    const code = resolveStatusCode(error);
+    if (code === 429) {
+      return true;
+    }
+    if (code !== undefined) {
+      return code >= 500 && code < 600;
+    }
+    // Код отсутствует — вероятно, сетевая ошибка. Пробуем ещё раз.
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Проверяет, ответил ли Telegram 429 Too Many Requests.
+ *
+ * @param error Ошибка отправки.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof TelegramDeliveryError && resolveStatusCode(error) === 429;
+}
+
+/**
+ * Извлекает HTTP-статус из ошибки доставки.
+ *
+ * @param error Ошибка доставки.
+ * @returns Код состояния или undefined.
+ */
+function resolveStatusCode(error: TelegramDeliveryError): number | undefined {
+  if (typeof error.status === 'number') {
+    return error.status;
+  }
+  const code = error.response?.error_code;
+  return typeof code === 'number' ? code : undefined;
+}
+
+/**
+ * Проверяет, отклонил ли Telegram запрос из-за некорректной разметки (400 "can't parse entities").
+ *
+ * @param error Ошибка отправки.
+ * @returns True, если запрос имеет смысл повторить без parse_mode.
+ */
+export function isParseEntitiesError(error: unknown): error is TelegramDeliveryError {
+  if (!(error instanceof TelegramDeliveryError)) {
+    return false;
+  }
+  const status = resolveStatusCode(error);
+  const description = error.response?.description ?? error.message;
+  return status === 400 && PARSE_ENTITIES_PATTERN.test(description);
+}
+
+/**
+ * Создаёт уведомление о том, что сообщение переотправлено plain-text'ом после ошибки разметки.
+ *
+ * @param error Исходная ошибка "can't parse entities".
+ * @returns Ошибка с кодом PARSE_ENTITIES_FALLBACK для onDeliveryError.
+ */
+export function createParseEntitiesFallbackError(
+  error: TelegramDeliveryError,
+): TelegramDeliveryError {
+  const fallback = new TelegramDeliveryError(
+    'Telegram не смог разобрать разметку, сообщение переотправлено без форматирования: ' +
+      error.message,
+    error.response,
+    error.status,
+    error,
+  );
+  fallback.code = 'PARSE_ENTITIES_FALLBACK';
+  return fallback;
+}
+
 /**
  * Клиент, который отправляет запросы в Telegram Bot API или делегирует работу пользовательскому send.
  * Отвечает за подготовку multipart-запросов, повторные попытки и нормализацию бинарных полей.
  */
 export class TelegramClient {
-  constructor(private readonly options: NormalizedOptions) {}
+  constructor(
+    private readonly options: NormalizedOptions,
+    private readonly circuitBreaker?: CircuitBreaker,
+    private readonly rateLimiter?: RateLimiter,
+    private readonly stats?: StatsCollector,
+  ) {}
 
   /**
    * Отправляет запрос в Telegram, выполняя повторные попытки при временных ошибках.
    *
    * @param request Готовый Telegram-запрос, сформированный транспортом.
+   * @returns Поле result ответа Telegram для метода запроса или undefined, если результат неизвестен.
    */
-  async send(request: TelegramRequest): Promise<void> {
-    await this.executeWithRetry(async () => {
+  async send<M extends TelegramMethod>(
+    request: TelegramRequestOf<M>,
+  ): Promise<TelegramMethodResultMap[M] | undefined> {
+    return this.executeWithRetry(request, async () => {
       if (this.options.send) {
-        await this.options.send(request.payload, request.method);
-        return;
+        return toSendResult(
+          request.method,
+          await this.options.send(request.payload, request.method),
+        );
       }
 
       const url = buildTelegramUrl(this.options.botToken, request.method);
@@ -73,7 +196,7 @@ export class TelegramClient {
           signal: timeout.signal,
         });
 
-        const data = (await response.json().catch(() => ({}))) as TelegramErrorResponse;
+        const data = (await response.json().catch(() => ({}))) as TelegramApiResponse;
 
         if (!response.ok || !data.ok) {
           const description = data?.description ?? response.statusText ?? 'Unknown error';
@@ -83,6 +206,8 @@ export class TelegramClient {
             response.status,
           );
         }
+
+        return toSendResult(request.method, data.result);
       } catch (error) {
         if (timeout.didTimeout()) {
           throw new TelegramDeliveryError(
@@ -116,7 +241,7 @@ export class TelegramClient {
    * @param request Telegram-запрос с полезной нагрузкой.
    * @returns Тело запроса и дополнительные заголовки.
    */
-  private prepareRequestBody(request: TelegramRequest): {
+  private prepareRequestBody(request: TelegramRequestOf<TelegramMethod>): {
     body: FetchBody;
     headers?: Record<string, string>;
   } {
@@ -134,6 +259,8 @@ export class TelegramClient {
 
   /**
    * Формирует multipart/form-data для передачи файлов в Telegram.
+   * Бинарные элементы альбома sendMediaGroup передаются отдельными частями
+   * и подставляются в JSON поля media ссылками `attach://<имя>`.
    *
    * @param payload Полезная нагрузка метода Telegram.
    * @returns Экземпляр FormData с сериализованными полями.
@@ -147,14 +274,17 @@ export class TelegramClient {
       }
 
       if (this.isBinaryField(key, value)) {
-        const file = this.normalizeInputFile(value, key === 'photo' ? 'photo' : 'document');
-        const filename = file.filename ?? this.defaultFilename(key as 'photo' | 'document');
-        const contentType =
-          file.contentType ?? this.defaultContentType(key as 'photo' | 'document');
-        const binary = this.toUint8Array(file.data);
-        const arrayBuffer = this.toArrayBuffer(binary);
-        const blob = new Blob([arrayBuffer], { type: contentType });
-        form.append(key, blob, filename);
+        this.appendFile(form, key, value, key as TelegramMediaField);
+      } else if (key === 'media' && Array.isArray(value)) {
+        const media = (value as TelegramInputMedia[]).map((item, index) => {
+          if (!this.isInputFileValue(item.media)) {
+            return item;
+          }
+          const attachName = `file${index}`;
+          this.appendFile(form, attachName, item.media, item.type);
+          return { ...item, media: `attach://${attachName}` };
+        });
+        form.append(key, JSON.stringify(media));
       } else {
         form.append(key, this.serializeFormValue(value));
       }
@@ -163,6 +293,30 @@ export class TelegramClient {
     return form;
   }
 
+  /**
+   * Добавляет файл в multipart-форму с именем и MIME-типом по умолчанию для поля.
+   *
+   * @param form Формируемая FormData.
+   * @param name Имя части формы.
+   * @param value Бинарное значение или TelegramInputFile.
+   * @param field Тип медиа, определяющий значения по умолчанию.
+   */
+  private appendFile(
+    form: FormData,
+    name: string,
+    value: unknown,
+    field: TelegramMediaField,
+  ): void {
+    const file = this.normalizeInputFile(value, field);
+    const defaults = getMediaFileDefaults(field);
+    const filename = file.filename ?? defaults.filename;
+    const contentType = file.contentType ?? defaults.contentType;
+    const binary = this.toUint8Array(file.data);
+    const arrayBuffer = this.toArrayBuffer(binary);
+    const blob = new Blob([arrayBuffer], { type: contentType });
+    form.append(name, blob, filename);
+  }
+
   /**
    * Сериализует произвольное значение в строку для multipart-поля.
    *
@@ -183,19 +337,13 @@ export class TelegramClient {
    * Проверяет, содержит ли полезная нагрузка бинарные данные.
    *
    * @param payload Полезная нагрузка Telegram.
-   * @returns True, если payload включает поля photo/document с бинарным содержимым.
+   * @returns True, если payload включает медиаполя или элементы media с бинарным содержимым.
    */
   private containsBinary(payload: TelegramSendPayload): boolean {
-    if ('photo' in payload && this.isInputFileValue(payload.photo)) {
-      return true;
+    if ('media' in payload && Array.isArray(payload.media)) {
+      return payload.media.some((item) => this.isInputFileValue(item.media));
     }
-    if (
-      'document' in payload &&
-      this.isInputFileValue((payload as typeof payload & { document?: unknown }).document)
-    ) {
-      return true;
-    }
-    return false;
+    return Object.entries(payload).some(([key, value]) => this.isBinaryField(key, value));
   }
 
   /**
@@ -205,7 +353,7 @@ export class TelegramClient {
    * @param value Значение поля.
    */
   private isBinaryField(field: string, value: unknown): boolean {
-    if (field === 'photo' || field === 'document') {
+    if (MEDIA_FIELDS.has(field)) {
       return this.isInputFileValue(value);
     }
     return false;
@@ -237,13 +385,13 @@ export class TelegramClient {
   }
 
   /**
-   * Приводит значение поля photo/document к объекту TelegramInputFile.
+   * Приводит значение медиаполя к объекту TelegramInputFile.
    *
    * @param value Исходное значение.
-   * @param field Имя поля (photo или document) для сообщений об ошибках.
+   * @param field Имя медиаполя для сообщений об ошибках.
    * @returns Приведённый TelegramInputFile.
    */
-  private normalizeInputFile(value: unknown, field: 'photo' | 'document'): TelegramInputFile {
+  private normalizeInputFile(value: unknown, field: TelegramMediaField): TelegramInputFile {
     if (this.isTelegramInputFile(value)) {
       return {
         data: this.toUint8Array(value.data),
@@ -335,48 +483,63 @@ export class TelegramClient {
     throw new TypeError('Unsupported binary payload');
   }
 
-  /**
-   * Возвращает имя файла по умолчанию для медиа-поля.
-   *
-   * @param field Тип поля (photo или document).
-   * @returns Имя файла по умолчанию.
-   */
-  private defaultFilename(field: 'photo' | 'document'): string {
-    return field === 'photo' ? 'photo.jpg' : 'document.bin';
-  }
-
-  /**
-   * Возвращает content-type по умолчанию для медиа-поля.
-   *
-   * @param field Тип поля (photo или document).
-   * @returns MIME-тип по умолчанию.
-   */
-  private defaultContentType(field: 'photo' | 'document'): string {
-    return field === 'photo' ? 'image/jpeg' : 'application/octet-stream';
-  }
-
   /**
    * Выполняет операцию с повторными попытками согласно настройкам транспорта.
+   * Каждая попытка проходит через circuit breaker: при разомкнутой цепи запрос
+   * отклоняется сразу, а временные ошибки попыток засчитываются как неудачи. Ответ 429
+   * и окончательные отказы 4xx нейтральны: они не считаются ни неудачей, ни успехом
+   * и лишь освобождают слот пробного запроса.
+   * retry_after из ответа 429 приостанавливает все чаты бота в общем RateLimiter, а повторная
+   * попытка проходит через его token bucket наравне с остальными сообщениями.
    *
+   * @param request Запрос, для которого выполняется операция.
    * @param operation Асинхронная операция отправки запроса.
    */
-  private async executeWithRetry(operation: () => Promise<void>): Promise<void> {
+  private async executeWithRetry<T>(
+    request: TelegramRequestOf<TelegramMethod>,
+    operation: () => Promise<T>,
+  ): Promise<T> {
     const { retryAttempts, retryInitialDelay, retryBackoffFactor, retryMaxDelay } = this.options;
     let attempt = 0;
     let delay = retryInitialDelay;
+    let lastError: unknown;
+    const chatKey = String(request.payload.chat_id);
+
+    for (;;) {
+      if (this.circuitBreaker && !this.circuitBreaker.tryAcquire()) {
+        const circuitError = new TelegramDeliveryError(
+          `Circuit breaker разомкнут, запрос ${request.method} отклонён без обращения к Telegram`,
+          undefined,
+          undefined,
+          lastError,
+        );
+        circuitError.code = 'CIRCUIT_OPEN';
+        throw circuitError;
+      }
 
-    while (attempt < retryAttempts) {
       try {
-        await operation();
-        return;
+        const result = await operation();
+        this.circuitBreaker?.recordSuccess();
+        return result;
       } catch (error) {
+        lastError = error;
+        this.pauseOnRetryAfter(error);
+        if (isTransientDeliveryError(error) && !isRateLimitError(error)) {
+          this.circuitBreaker?.recordFailure();
+        } else {
+          this.circuitBreaker?.releaseProbe();
+        }
+
         attempt += 1;
-        if (!this.isRetryable(error) || attempt >= retryAttempts) {
+        const willRetry = this.isRetryable(error) && attempt < retryAttempts;
+        this.stats?.recordAttemptError(request, error, willRetry);
+        if (!willRetry) {
           throw error;
         }
 
         const waitTime = this.resolveRetryDelay(error, delay);
         await sleep(waitTime);
+        await this.rateLimiter?.wait(chatKey, 0);
         const multiplied = delay * retryBackoffFactor;
         const nextBase = Math.max(multiplied, waitTime, retryInitialDelay);
         delay = Math.min(nextBase, retryMaxDelay);
@@ -384,6 +547,22 @@ export class TelegramClient {
     }
   }
 
+  /**
+   * Передаёт retry_after в RateLimiter, чтобы паузу соблюдали отправители всех чатов бота,
+   * а не только текущий повтор.
+   *
+   * @param error Ошибка, полученная при отправке.
+   */
+  private pauseOnRetryAfter(error: unknown): void {
+    if (!this.rateLimiter || !(error instanceof TelegramDeliveryError)) {
+      return;
+    }
+    const retryAfter = this.extractRetryAfter(error);
+    if (retryAfter !== undefined) {
+      this.rateLimiter.pauseAll(retryAfter);
+    }
+  }
+
   /**
    * Определяет, стоит ли повторять запрос после ошибки.
    *
@@ -391,21 +570,7 @@ export class TelegramClient {
    * @returns True, если ошибка временная или связана с rate limit.
    */
   private isRetryable(error: unknown): boolean {
-    if (error instanceof TelegramDeliveryError) {
-      if (error.isTimeout) {
-        return true;
-      }
-      const code = this.resolveStatusCode(error);
-      if (code === 429) {
-        return true;
-      }
-      if (code !== undefined) {
-        return code >= 500 && code < 600;
-      }
-      // Код отсутствует — вероятно, сетевая ошибка. Пробуем ещё раз.
-      return true;
-    }
-    return false;
+    return isTransientDeliveryError(error);
   }
 
   /**
@@ -425,20 +590,6 @@ export class TelegramClient {
     return Math.max(0, fallback);
   }
 
-  /**
-   * Извлекает HTTP-статус из ошибки доставки.
-   *
-   * @param error Ошибка доставки.
-   * @returns Код состояния или undefined.
-   */
-  private resolveStatusCode(error: TelegramDeliveryError): number | undefined {
-    if (typeof error.status === 'number') {
-      return error.status;
-    }
-    const code = error.response?.error_code;
-    return typeof code === 'number' ? code : undefined;
-  }
-
   /**
    * Извлекает значение retry_after из ответа Telegram.
    *
@@ -459,6 +610,47 @@ export class TelegramClient {
   }
 }
 
+/**
+ * Приводит поле result ответа Telegram или значение пользовательского send к типу результата метода.
+ *
+ * @param method Метод Bot API, определяющий ожидаемую форму результата.
+ * @param value Произвольное значение результата.
+ * @returns Message, массив Message для sendMediaGroup, Message или `true` для editMessageText;
+ * undefined, если значение не подходит методу.
+ */
+function toSendResult<M extends TelegramMethod>(
+  method: M,
+  value: unknown,
+): TelegramMethodResultMap[M] | undefined {
+  let isValid: boolean;
+  if (method === 'sendMediaGroup') {
+    isValid = Array.isArray(value) && value.length > 0 && value.every(isTelegramMessage);
+  } else if (method === 'editMessageText') {
+    isValid = value === true || isTelegramMessage(value);
+  } else {
+    isValid = isTelegramMessage(value);
+  }
+  return isValid ? (value as TelegramMethodResultMap[M]) : undefined;
+}
+
+/**
+ * Проверяет обязательные поля TelegramMessage: message_id, date и chat с id и type.
+ */
+function isTelegramMessage(value: unknown): value is TelegramMessage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { message_id: messageId, date, chat } = value as Record<string, unknown>;
+  if (typeof messageId !== 'number' || typeof date !== 'number') {
+    return false;
+  }
+  if (typeof chat !== 'object' || chat === null) {
+    return false;
+  }
+  const { id, type } = chat as Record<string, unknown>;
+  return typeof id === 'number' && typeof type === 'string';
+}
+
 /**
  * Асинхронная задержка, используемая при повторных попытках.
  *
@@ -1,10 +1,42 @@
-import { PinoLog, TelegramChatTarget, TelegramMessagePayload, TelegramRequest } from './types';
+import { normalizeFingerprintText } from './log-sampler';
+import { readLogField } from './utils';
+import {
+  ChatIdentifier,
+  NormalizedOptions,
+  PinoLog,
+  TelegramBasePayload,
+  TelegramChatTarget,
+  TelegramMessagePayload,
+  TelegramRequest,
+} from './types';
 
 interface TextMessageDeduperOptions {
   windowMs?: number;
   now?: () => number;
 }
 
+/**
+ * Доставленное сообщение, которое можно отредактировать при повторе события.
+ */
+export interface DedupDeliveredMessage {
+  chatId: ChatIdentifier;
+  messageId: number;
+  text: string;
+  parseMode?: TelegramBasePayload['parse_mode'];
+}
+
+export interface DedupOccurrence {
+  /** Сколько раз событие произошло в текущем окне, включая первую доставку. */
+  count: number;
+  message?: DedupDeliveredMessage;
+}
+
+interface DedupEntry {
+  deliveredAt: number;
+  count: number;
+  message?: DedupDeliveredMessage;
+}
+
 /**
  * Подавляет повторную доставку одинаковых текстовых событий в пределах заданного окна.
  * Ключ строится по target, стабильному представлению лога без top-level `time`
@@ -13,7 +45,7 @@ interface TextMessageDeduperOptions {
 export class TextMessageDeduper {
   private readonly windowMs: number;
   private readonly now: () => number;
-  private readonly deliveredAtByKey = new Map<string, number>();
+  private readonly entriesByKey = new Map<string, DedupEntry>();
 
   constructor(options: TextMessageDeduperOptions = {}) {
     this.windowMs = options.windowMs ?? 0;
@@ -28,37 +60,80 @@ export class TextMessageDeduper {
     const currentTime = this.now();
     this.pruneExpiredEntries(currentTime);
 
-    const deliveredAt = this.deliveredAtByKey.get(key);
-    if (deliveredAt === undefined) {
+    const entry = this.entriesByKey.get(key);
+    if (!entry) {
       return false;
     }
 
-    return currentTime - deliveredAt < this.windowMs;
+    return currentTime - entry.deliveredAt < this.windowMs;
   }
 
-  remember(key: string | undefined): void {
+  /**
+   * Запоминает успешно доставленное событие и начинает для него окно dedup.
+   *
+   * @param key Ключ события.
+   * @param message Доставленное сообщение, если его можно позднее отредактировать.
+   */
+  remember(key: string | undefined, message?: DedupDeliveredMessage): void {
     if (!key || this.windowMs <= 0) {
       return;
     }
 
     const currentTime = this.now();
     this.pruneExpiredEntries(currentTime);
-    this.deliveredAtByKey.set(key, currentTime);
+    this.entriesByKey.set(key, { deliveredAt: currentTime, count: 1, message });
+  }
+
+  /**
+   * Учитывает подавленный повтор события внутри окна.
+   *
+   * @param key Ключ события.
+   * @returns Текущий счётчик и доставленное сообщение либо undefined, если окно уже истекло.
+   */
+  registerRepeat(key: string | undefined): DedupOccurrence | undefined {
+    if (!key) {
+      return undefined;
+    }
+
+    const entry = this.entriesByKey.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.count += 1;
+    return { count: entry.count, message: entry.message };
   }
 
   private pruneExpiredEntries(currentTime: number): void {
-    for (const [key, deliveredAt] of this.deliveredAtByKey.entries()) {
-      if (currentTime - deliveredAt >= this.windowMs) {
-        this.deliveredAtByKey.delete(key);
+    for (const [key, entry] of this.entriesByKey.entries()) {
+      if (currentTime - entry.deliveredAt >= this.windowMs) {
+        this.entriesByKey.delete(key);
       }
     }
   }
 }
 
+/**
+ * Настройки, от которых зависит представление записи в ключе dedup.
+ */
+export type TextMessageDedupKeyOptions = Pick<
+  NormalizedOptions,
+  'dedupStrategy' | 'dedupKeys' | 'dedupStackFrames'
+>;
+
+const DEFAULT_DEDUP_KEY_OPTIONS: TextMessageDedupKeyOptions = {
+  dedupStrategy: 'log',
+  dedupStackFrames: 0,
+};
+
+const STACK_FRAME_PATTERN = /^\s*at\s/;
+const STACK_POSITION_PATTERN = /:\d+(?::\d+)?(?=\)?$)/;
+
 export function createTextMessageDedupKey(
   log: PinoLog,
   target: TelegramChatTarget,
   requests: TelegramRequest[],
+  options: TextMessageDedupKeyOptions = DEFAULT_DEDUP_KEY_OPTIONS,
 ): string | undefined {
   const textRequests = requests.filter(
     (request): request is Extract<TelegramRequest, { method: 'sendMessage' }> =>
@@ -74,7 +149,7 @@ export function createTextMessageDedupKey(
       chatId: target.chatId,
       threadId: target.threadId,
     },
-    log: createStableDedupValue(removeTopLevelTime(log)),
+    log: createDedupLogValue(log, options),
     requestMetadata: textRequests.map((request) => ({
       method: request.method,
       payload: removeMessageText(request.payload),
@@ -82,6 +157,43 @@ export function createTextMessageDedupKey(
   });
 }
 
+function createDedupLogValue(log: PinoLog, options: TextMessageDedupKeyOptions): unknown {
+  const selected = options.dedupKeys
+    ? Object.fromEntries(
+        options.dedupKeys.map((key) => [key, createStableDedupValue(readLogField(log, key))]),
+      )
+    : undefined;
+
+  if (options.dedupStrategy === 'fingerprint') {
+    return { fingerprint: createErrorFingerprint(log, options.dedupStackFrames), keys: selected };
+  }
+  return selected ?? createStableDedupValue(removeTopLevelTime(log));
+}
+
+/**
+ * Строит fingerprint события, не зависящий от reqId, pid, чисел и идентификаторов в тексте:
+ * уровень, шаблон msg, err.type, нормализованный err.message и верхние кадры стека
+ * без номеров строк и колонок.
+ *
+ * @param log Запись Pino.
+ * @param stackFrames Сколько верхних кадров стека учитывать.
+ */
+function createErrorFingerprint(log: PinoLog, stackFrames: number): Record<string, unknown> {
+  const err = log.err && typeof log.err === 'object' ? log.err : undefined;
+  const stack = typeof err?.stack === 'string' ? err.stack : '';
+  return {
+    level: log.level,
+    msg: normalizeFingerprintText(log.msg),
+    type: typeof err?.type === 'string' ? err.type : undefined,
+    message: normalizeFingerprintText(err?.message),
+    stack: stack
+      .split('\n')
+      .filter((line) => STACK_FRAME_PATTERN.test(line))
+      .slice(0, stackFrames)
+      .map((line) => line.trim().replace(STACK_POSITION_PATTERN, '')),
+  };
+}
+
 function removeTopLevelTime(log: PinoLog): Record<string, unknown> {
   return Object.fromEntries(
     Object.entries(log).filter((entry): entry is [string, unknown] => entry[0] !== 'time'),
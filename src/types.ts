@@ -1,8 +1,24 @@
 ﻿export type ChatIdentifier = string | number;
 
-export type TelegramMethod = 'sendMessage' | 'sendPhoto' | 'sendDocument';
+export type TelegramMethod =
+  | 'sendMessage'
+  | 'sendPhoto'
+  | 'sendDocument'
+  | 'sendVideo'
+  | 'sendAudio'
+  | 'sendVoice'
+  | 'sendAnimation'
+  | 'sendMediaGroup'
+  | 'editMessageText';
+/** Поле полезной нагрузки, в котором методы отправки медиа ожидают файл. */
+export type TelegramMediaField = 'photo' | 'document' | 'video' | 'audio' | 'voice' | 'animation';
 export type TelegramQueueOverflowStrategy = 'dropOldest' | 'dropNewest' | 'block';
-export type TelegramFormatPreset = 'default' | 'compact' | 'verbose';
+export type TelegramDedupMode = 'suppress' | 'edit';
+/** Из чего строится ключ dedup: вся запись без time или fingerprint ошибки. */
+export type TelegramDedupStrategy = 'log' | 'fingerprint';
+export type TelegramFormatPreset = 'default' | 'compact' | 'verbose' | 'http';
+/** Состояние circuit breaker: closed — запросы идут, open — отклоняются сразу, halfOpen — пробный запрос. */
+export type TelegramCircuitState = 'closed' | 'open' | 'halfOpen';
 
 export type PinoLevelName = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal' | 'silent';
 
@@ -15,13 +31,136 @@ export interface TelegramInputFile {
   contentType?: string;
 }
 
-export interface TelegramChatTarget {
+export interface TelegramCircuitBreakerStats {
+  /** Текущее состояние. */
+  state: TelegramCircuitState;
+  /** Количество неудачных попыток подряд. */
+  consecutiveFailures: number;
+  /** Количество неудачных попыток за всё время работы транспорта. */
+  totalFailures: number;
+  /** Количество запросов, отклонённых без обращения к Telegram. */
+  rejectedRequests: number;
+  /** Сколько раз breaker переходил в open. */
+  openCount: number;
+  /** Время последнего перехода в open (мс с эпохи). */
+  openedAt?: number;
+  /** Время, после которого будет разрешён пробный запрос (мс с эпохи). */
+  nextProbeAt?: number;
+}
+
+export interface TelegramDropStats {
+  /** Количество записей, отброшенных при переполнении очередей за всё время работы транспорта. */
+  total: number;
+  /** Отброшенные записи по уровню (INFO, WARN, ...). */
+  byLevel: Record<string, number>;
+  /** Отброшенные записи по target (ключ `chatId:threadId`). */
+  byTarget: Record<string, number>;
+  /** Время последнего отбрасывания (мс с эпохи). */
+  lastDropAt?: number;
+}
+
+export interface TelegramTargetStats {
+  /** Задачи, ожидающие в очереди target. */
+  queueDepth: number;
+  /** Успешно отправленные запросы. */
+  sent: number;
+  /** Запросы, которые не удалось доставить. */
+  failed: number;
+  /** Повторные попытки после временных ошибок. */
+  retried: number;
+  /** Записи, подавленные дедупликацией. */
+  deduplicated: number;
+  /** Записи, подавленные sampling и throttling. */
+  suppressed: number;
+  /** Записи, отброшенные при переполнении очереди. */
+  dropped: number;
+}
+
+export interface TelegramMethodStats {
+  sent: number;
+  failed: number;
+  retried: number;
+  /** Ответы 429 Too Many Requests. */
+  rateLimited: number;
+}
+
+export interface TelegramLatencyStats {
+  /** Количество замеров в выборке (последние доставки). */
+  count: number;
+  /** Перцентили времени доставки с учётом повторов (мс); 0, если замеров нет. */
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+  /** Количество доставок с момента запуска. */
+  totalCount: number;
+  /** Суммарное время доставок с момента запуска (мс). */
+  totalMs: number;
+}
+
+export interface TelegramTransportStats extends Omit<TelegramTargetStats, 'queueDepth'> {
+  /** Суммарная глубина очередей всех target. */
+  queueDepth: number;
+  /** Ответы 429 Too Many Requests. */
+  rateLimited: number;
+  /** Счётчики по target (ключ `chatId:threadId`). */
+  targets: Record<string, TelegramTargetStats>;
+  /** Счётчики по методам Bot API. */
+  methods: Partial<Record<TelegramMethod, TelegramMethodStats>>;
+  latency: TelegramLatencyStats;
+  circuitBreaker: TelegramCircuitBreakerStats;
+}
+
+export type TelegramRouteValue = string | number | boolean | null;
+
+/**
+ * Условие маршрутизации записи. Все заданные проверки должны выполниться одновременно.
+ * Условия сериализуются в JSON, поэтому их можно передавать через transport.target.
+ */
+export interface TelegramRouteCondition {
+  /** Путь к полю записи через точку: `module`, `req.url`, `err.type`. */
+  field?: string;
+  /** Точное значение поля или список допустимых значений. */
+  equals?: TelegramRouteValue | TelegramRouteValue[];
+  /** Регулярное выражение (исходный текст), которому должно соответствовать значение поля. */
+  matches?: string;
+  /** Флаги регулярного выражения matches. */
+  flags?: string;
+  /** Наличие (true) или отсутствие (false) поля; поле без других проверок должно существовать. */
+  exists?: boolean;
+  /** Нижняя граница уровня записи (включительно). */
+  minLevel?: number | PinoLevelName;
+  /** Верхняя граница уровня записи (включительно). */
+  maxLevel?: number | PinoLevelName;
+}
+
+/**
+ * Опции, которые target может переопределить для себя; остальные берутся из общих настроек.
+ * formatPreset у target имеет приоритет над общим formatMessage.
+ */
+export type TelegramTargetOverrides = Pick<
+  TelegramTransportOptions,
+  | 'disableNotification'
+  | 'quietHours'
+  | 'formatPreset'
+  | 'headings'
+  | 'parseMode'
+  | 'includeExtras'
+  | 'redactKeys'
+  | 'maxMessageLength'
+>;
+
+export interface TelegramChatTarget extends TelegramTargetOverrides {
   /** Идентификатор чата (отрицательные значения используются для групп). */
   chatId: ChatIdentifier;
   /** Идентификатор темы в супергруппе. */
   threadId?: number;
   /** Минимальный уровень логов для конкретного target. */
   minLevel?: number | PinoLevelName;
+  /** Запись отправляется в target, только если подходит хотя бы под одно условие. */
+  include?: TelegramRouteCondition[];
+  /** Запись не отправляется в target, если подходит хотя бы под одно условие. */
+  exclude?: TelegramRouteCondition[];
 }
 
 export type RawChatTarget = ChatIdentifier | TelegramChatTarget;
@@ -50,19 +189,143 @@ export interface TelegramDocumentPayload extends TelegramBasePayload {
   disable_content_type_detection?: boolean;
 }
 
+export interface TelegramVideoPayload extends TelegramBasePayload {
+  video: string | TelegramInputFile;
+  caption?: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+  supports_streaming?: boolean;
+  has_spoiler?: boolean;
+}
+
+export interface TelegramAudioPayload extends TelegramBasePayload {
+  audio: string | TelegramInputFile;
+  caption?: string;
+  duration?: number;
+  performer?: string;
+  title?: string;
+}
+
+export interface TelegramVoicePayload extends TelegramBasePayload {
+  voice: string | TelegramInputFile;
+  caption?: string;
+  duration?: number;
+}
+
+export interface TelegramAnimationPayload extends TelegramBasePayload {
+  animation: string | TelegramInputFile;
+  caption?: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+  has_spoiler?: boolean;
+}
+
+export interface TelegramInputMediaPhoto {
+  type: 'photo';
+  media: string | TelegramInputFile;
+  caption?: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  has_spoiler?: boolean;
+}
+
+export interface TelegramInputMediaDocument {
+  type: 'document';
+  media: string | TelegramInputFile;
+  caption?: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  disable_content_type_detection?: boolean;
+}
+
+export type TelegramInputMedia = TelegramInputMediaPhoto | TelegramInputMediaDocument;
+
+export interface TelegramMediaGroupPayload extends Omit<TelegramBasePayload, 'parse_mode'> {
+  /** Элементы альбома (от 2 до 10); подпись альбома задаётся у первого элемента. */
+  media: TelegramInputMedia[];
+}
+
+export interface TelegramEditMessageTextPayload {
+  chat_id: ChatIdentifier;
+  message_id: number;
+  text: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  disable_web_page_preview?: boolean;
+}
+
 export type TelegramMethodPayloadMap = {
   sendMessage: TelegramMessagePayload;
   sendPhoto: TelegramPhotoPayload;
   sendDocument: TelegramDocumentPayload;
+  sendVideo: TelegramVideoPayload;
+  sendAudio: TelegramAudioPayload;
+  sendVoice: TelegramVoicePayload;
+  sendAnimation: TelegramAnimationPayload;
+  sendMediaGroup: TelegramMediaGroupPayload;
+  editMessageText: TelegramEditMessageTextPayload;
+};
+
+/** Сообщение, которое Telegram возвращает после успешной отправки. */
+export interface TelegramMessage {
+  message_id: number;
+  date: number;
+  chat: { id: number; type: string; title?: string; username?: string };
+  message_thread_id?: number;
+  text?: string;
+  caption?: string;
+  [key: string]: unknown;
+}
+
+/** Тип поля result ответа Telegram для каждого метода. */
+export type TelegramMethodResultMap = {
+  sendMessage: TelegramMessage;
+  sendPhoto: TelegramMessage;
+  sendDocument: TelegramMessage;
+  sendVideo: TelegramMessage;
+  sendAudio: TelegramMessage;
+  sendVoice: TelegramMessage;
+  sendAnimation: TelegramMessage;
+  sendMediaGroup: TelegramMessage[];
+  /** Для inline-сообщений Telegram возвращает true вместо Message. */
+  editMessageText: TelegramMessage | true;
 };
 
+export type TelegramSendResult = TelegramMethodResultMap[TelegramMethod];
+
 export type TelegramSendPayload = TelegramMethodPayloadMap[TelegramMethod];
 
+export type TelegramWeekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface TelegramQuietHours {
+  /** IANA-часовой пояс расписания, например `Europe/Moscow`. По умолчанию UTC. */
+  timezone?: string;
+  /** Интервалы `HH:MM-HH:MM`; интервал может переходить через полночь. */
+  hours: string | string[];
+  /** Дни недели, в которые начинаются интервалы (0 — воскресенье). По умолчанию все дни. */
+  days?: Array<TelegramWeekday | number>;
+  /** Уровень, начиная с которого записи уведомляют и в тихие часы. */
+  notifyLevel?: number | PinoLevelName;
+  /** Копить записи ниже notifyLevel до конца тихих часов и отправлять их дайджестом. */
+  digest?: boolean;
+}
+
+export interface NormalizedQuietHours {
+  timezone: string;
+  /** Интервалы в минутах от полуночи. */
+  ranges: Array<{ from: number; to: number }>;
+  days: number[];
+  notifyLevel?: number;
+  digest: boolean;
+}
+
+/** Запрос к конкретному методу Bot API. */
+export interface TelegramRequestOf<M extends TelegramMethod> {
+  method: M;
+  payload: TelegramMethodPayloadMap[M];
+}
+
 export type TelegramRequest = {
-  [M in TelegramMethod]: {
-    method: M;
-    payload: TelegramMethodPayloadMap[M];
-  };
+  [M in TelegramMethod]: TelegramRequestOf<M>;
 }[TelegramMethod];
 
 export interface TelegramTransportOptions {
@@ -76,6 +339,8 @@ export interface TelegramTransportOptions {
   parseMode?: 'HTML' | 'Markdown' | 'MarkdownV2';
   /** Отключение push-уведомлений. */
   disableNotification?: boolean;
+  /** Расписание тихих часов: сообщения уходят без звука или копятся до утреннего дайджеста. */
+  quietHours?: TelegramQuietHours;
   /** Запрет предпросмотра ссылок (только для sendMessage). */
   disableWebPagePreview?: boolean;
   /** Включать ли пользовательский контекст. */
@@ -88,22 +353,108 @@ export interface TelegramTransportOptions {
   extraKeys?: string[];
   /** Ключи, значения которых нужно редактировать в Context/Error/Extras. */
   redactKeys?: string[];
+  /**
+   * Заголовки req.headers и res.headers, значения которых пресет http выводит как есть;
+   * значения остальных заголовков заменяются маркером.
+   */
+  httpHeaderKeys?: string[];
+  /** Сколько уровней err.cause и AggregateError.errors раскрывать в блоке Error. */
+  errorCauseDepth?: number;
+  /** Сколько кадров стека оставлять в блоке Error. 0 — без ограничения. */
+  stackFrameLimit?: number;
+  /** Схлопывать подряд идущие кадры node_modules и node:internal в «… N library frames». */
+  collapseLibraryFrames?: boolean;
+  /** Корень проекта: абсолютные пути в стеке переписываются относительно него. */
+  stackRoot?: string;
+  /**
+   * Шаблон ссылки на код для кадров стека под stackRoot с подстановками `{file}`, `{line}`
+   * и `{column}`, например `https://github.com/acme/api/blob/<commit>/{file}#L{line}`.
+   */
+  sourceUrlTemplate?: string;
+  /**
+   * Сворачивать секции Context, Error и Extras стандартного форматтера в свёрнутую цитату,
+   * чтобы на экране оставался заголовок. Работает в parseMode HTML и MarkdownV2.
+   */
+  expandableSections?: boolean;
   /** Максимальная длина текстового сообщения. */
   maxMessageLength?: number;
   /** Разбивать ли длинные текстовые сообщения на несколько частей вместо truncation. */
   splitLongMessages?: boolean;
   /** Окно подавления одинаковых текстовых сообщений (мс). 0 отключает dedup. */
   dedupWindowMs?: number;
+  /** Поведение при повторе: молча подавить или дописать счётчик в первое сообщение через editMessageText. */
+  dedupMode?: TelegramDedupMode;
+  /**
+   * Ключ dedup: `log` — вся запись без time, `fingerprint` — уровень, шаблон msg, err.type,
+   * нормализованный err.message и верхние кадры стека.
+   */
+  dedupStrategy?: TelegramDedupStrategy;
+  /**
+   * Поля (путь через точку), которые участвуют в ключе dedup. Для `log` заменяют всю запись,
+   * для `fingerprint` дополняют fingerprint.
+   */
+  dedupKeys?: string[];
+  /** Сколько верхних кадров стека входит в fingerprint. */
+  dedupStackFrames?: number;
+  /** Доля доставляемых записей по уровню (0..1), например `{ warn: 0.1 }`. */
+  sampleRates?: Partial<Record<PinoLevelName, number>>;
+  /**
+   * Сколько записей с одинаковым fingerprint (шаблон msg и err.message без чисел и ID)
+   * доставлять за throttleWindowMs. 0 отключает throttling.
+   */
+  throttleLimit?: number;
+  /** Окно throttling (мс). */
+  throttleWindowMs?: number;
+  /**
+   * Окно накопления текстовых сообщений уровнем ниже error в один пакет для каждого target (мс).
+   * 0 отключает batching.
+   */
+  batchWindowMs?: number;
+  /** Максимальное количество записей в одном пакете; при достижении пакет отправляется сразу. */
+  batchMaxSize?: number;
   /** Минимальный интервал между сообщениями в одном чате (мс). */
   minDelayBetweenMessages?: number;
+  /** Общий лимит бота (сообщений в секунду) для всех чатов. 0 отключает ограничение. */
+  rateLimitPerSecond?: number;
+  /**
+   * Лимит для групп и каналов (сообщений в минуту) — чатов с отрицательным chat_id или @username.
+   * 0 отключает ограничение.
+   */
+  groupRateLimitPerMinute?: number;
+  /** Лимит для личных чатов (сообщений в секунду). 0 — только minDelayBetweenMessages. */
+  chatRateLimitPerSecond?: number;
   /** Минимальный уровень логов для отправки (число или название уровня Pino). */
   minLevel?: number | PinoLevelName;
-  /** Максимальное количество ожидающих задач во внутренней очереди доставки. */
+  /** Максимальное количество ожидающих задач в очереди доставки каждого target. */
   maxQueueSize?: number;
   /** Поведение при переполнении внутренней очереди доставки. */
   overflowStrategy?: TelegramQueueOverflowStrategy;
+  /**
+   * Завершать запись в поток, как только запись встала в очереди target, а не после доставки.
+   * Доставку по-прежнему дожидаются flush и завершение потока.
+   */
+  acknowledgeOnEnqueue?: boolean;
+  /**
+   * Отправлять ли в чат сводку об отброшенных при переполнении записях,
+   * когда очередь target опустеет.
+   */
+  overflowNotice?: boolean;
+  /**
+   * Уровень, начиная с которого записи никогда не отбрасываются при переполнении очереди
+   * (число или название уровня Pino). Infinity отключает защиту.
+   */
+  queueProtectedLevel?: number | PinoLevelName;
   /** Пробрасывать ли ошибки конфигурации вместо fallback в noop-транспорт. */
   failOnInitError?: boolean;
+  /**
+   * Каталог файлового spool: неотправленные запросы сохраняются на диск и переотправляются
+   * после перезапуска или восстановления связи. Без значения spool отключён.
+   */
+  spoolDir?: string;
+  /** Максимальный суммарный размер файлов spool (байты); при превышении удаляются самые старые записи. */
+  spoolMaxBytes?: number;
+  /** Максимальный возраст записи spool (мс); более старые записи не переотправляются. */
+  spoolMaxAgeMs?: number;
 
   /** Пользовательский форматтер сообщения. */
   formatMessage?: (input: FormatMessageInput) => FormatMessageResult | Promise<FormatMessageResult>;
@@ -113,8 +464,20 @@ export interface TelegramTransportOptions {
     payload?: TelegramSendPayload,
     method?: TelegramMethod,
   ) => void;
+  /**
+   * Обработчик успешной доставки: получает result из ответа Telegram, исходный запрос и запись лога.
+   * Для пакетного сообщения вызывается для каждой записи пакета.
+   */
+  onDelivered?: (
+    result: TelegramSendResult | undefined,
+    request: TelegramRequest,
+    log: PinoLog,
+  ) => void;
   /** Пользовательский способ отправки (для тестов/кастомных клиентов). */
-  send?: (payload: TelegramSendPayload, method: TelegramMethod) => Promise<void>;
+  send?: (
+    payload: TelegramSendPayload,
+    method: TelegramMethod,
+  ) => Promise<void | TelegramSendResult>;
   /** Кастомные заголовки для форматтера по умолчанию. */
   headings?: Partial<FormatterHeadings>;
   /** Встроенный пресет форматирования для transport.target и простых сценариев. */
@@ -129,6 +492,23 @@ export interface TelegramTransportOptions {
   retryMaxDelay?: number;
   /** Таймаут HTTP-запроса к Telegram (мс). 0 отключает таймаут встроенного клиента. */
   requestTimeoutMs?: number;
+  /**
+   * Количество временных ошибок подряд, после которого circuit breaker размыкается
+   * и запросы отклоняются без обращения к Telegram. 0 отключает breaker.
+   */
+  circuitBreakerThreshold?: number;
+  /** Время в состоянии open до пробного запроса (мс). */
+  circuitBreakerResetMs?: number;
+  /** Периодический обработчик статистики транспорта (см. stream.getStats()). */
+  onStats?: (stats: TelegramTransportStats) => void;
+  /** Интервал вызова onStats (мс). */
+  statsIntervalMs?: number;
+  /** Обработчик смены состояния circuit breaker. */
+  onCircuitStateChange?: (
+    state: TelegramCircuitState,
+    previousState: TelegramCircuitState,
+    stats: TelegramCircuitBreakerStats,
+  ) => void;
 }
 
 export interface FormatMessageInput {
@@ -142,6 +522,7 @@ export interface FormatterHeadings {
   context: string;
   error: string;
   extras: string;
+  source: string;
 }
 
 export interface FormatMessageResult {
@@ -159,35 +540,101 @@ export interface PinoLog {
   [key: string]: unknown;
 }
 
-export interface NormalizedTelegramChatTarget extends Omit<TelegramChatTarget, 'minLevel'> {
+export interface NormalizedRouteCondition {
+  field?: string;
+  equals?: TelegramRouteValue[];
+  pattern?: RegExp;
+  exists?: boolean;
   minLevel?: number;
+  maxLevel?: number;
 }
 
+export interface NormalizedTelegramChatTarget
+  extends Omit<
+    TelegramChatTarget,
+    'minLevel' | 'include' | 'exclude' | keyof TelegramTargetOverrides
+  > {
+  minLevel?: number;
+  include?: NormalizedRouteCondition[];
+  exclude?: NormalizedRouteCondition[];
+  /** Переопределения общих опций; formatPreset уже разрешён в formatMessage. */
+  overrides?: NormalizedTargetOverrides;
+}
+
+export type NormalizedTargetOverrides = Partial<
+  Pick<
+    NormalizedOptions,
+    | 'disableNotification'
+    | 'quietHours'
+    | 'formatMessage'
+    | 'parseMode'
+    | 'includeExtras'
+    | 'redactKeys'
+    | 'maxMessageLength'
+  >
+> & {
+  headings?: Partial<FormatterHeadings>;
+};
+
 export interface NormalizedOptions {
   botToken: string;
   targets: NormalizedTelegramChatTarget[];
   parseMode: 'HTML' | 'Markdown' | 'MarkdownV2';
   disableNotification: boolean;
+  quietHours?: NormalizedQuietHours;
   disableWebPagePreview: boolean;
   includeContext: boolean;
   contextKeys: string[];
   includeExtras: boolean;
   extraKeys?: string[];
   redactKeys: string[];
+  /** Имена заголовков в нижнем регистре. */
+  httpHeaderKeys: string[];
+  errorCauseDepth: number;
+  stackFrameLimit: number;
+  collapseLibraryFrames: boolean;
+  stackRoot?: string;
+  sourceUrlTemplate?: string;
+  expandableSections: boolean;
   maxMessageLength: number;
   splitLongMessages: boolean;
   dedupWindowMs: number;
+  dedupMode: TelegramDedupMode;
+  dedupStrategy: TelegramDedupStrategy;
+  dedupKeys?: string[];
+  dedupStackFrames: number;
+  /** Доля доставляемых записей по числовому уровню. */
+  sampleRates: Record<number, number>;
+  throttleLimit: number;
+  throttleWindowMs: number;
+  batchWindowMs: number;
+  batchMaxSize: number;
   minDelayBetweenMessages: number;
+  rateLimitPerSecond: number;
+  groupRateLimitPerMinute: number;
+  chatRateLimitPerSecond: number;
   minLevel: number;
   maxQueueSize: number;
   overflowStrategy: TelegramQueueOverflowStrategy;
+  acknowledgeOnEnqueue: boolean;
+  overflowNotice: boolean;
+  queueProtectedLevel: number;
   retryAttempts: number;
   retryInitialDelay: number;
   retryBackoffFactor: number;
   retryMaxDelay: number;
   requestTimeoutMs: number;
+  spoolDir?: string;
+  spoolMaxBytes: number;
+  spoolMaxAgeMs: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerResetMs: number;
+  onCircuitStateChange?: TelegramTransportOptions['onCircuitStateChange'];
+  onStats?: TelegramTransportOptions['onStats'];
+  statsIntervalMs: number;
   formatMessage?: TelegramTransportOptions['formatMessage'];
   onDeliveryError?: TelegramTransportOptions['onDeliveryError'];
+  onDelivered?: TelegramTransportOptions['onDelivered'];
   send?: TelegramTransportOptions['send'];
   headings: FormatterHeadings;
 }
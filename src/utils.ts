@@ -1,13 +1,32 @@
 ﻿import {
+  FormatterHeadings,
   NormalizedOptions,
+  NormalizedQuietHours,
+  NormalizedRouteCondition,
+  NormalizedTargetOverrides,
   NormalizedTelegramChatTarget,
+  PinoLevelName,
+  PinoLog,
   RawChatTarget,
   TelegramChatTarget,
+  TelegramDedupMode,
+  TelegramDedupStrategy,
   TelegramFormatPreset,
+  TelegramMediaField,
   TelegramQueueOverflowStrategy,
+  TelegramQuietHours,
+  TelegramRouteCondition,
+  TelegramRouteValue,
   TelegramTransportOptions,
+  TelegramWeekday,
 } from './types';
-import { createCompactFormatter, createMediaFormatter, createVerboseFormatter } from './presets';
+import {
+  createCompactFormatter,
+  createHttpFormatter,
+  createMediaFormatter,
+  createVerboseFormatter,
+} from './presets';
+import { getTimeZoneFormatter } from './quiet-hours';
 
 const TELEGRAM_BASE_URL = 'https://api.telegram.org';
 const DEFAULT_CONTEXT_KEYS = ['context', 'ctx'];
@@ -18,8 +37,10 @@ const DEFAULT_HEADINGS = Object.freeze({
   context: 'Context',
   error: 'Error',
   extras: 'Extras',
+  source: 'Source',
 });
 const DEFAULT_INCLUDE_EXTRAS = true;
+const DEFAULT_ERROR_CAUSE_DEPTH = 3;
 const DEFAULT_RETRY_ATTEMPTS = 3;
 const DEFAULT_RETRY_INITIAL_DELAY = 500;
 const DEFAULT_RETRY_BACKOFF = 2;
@@ -27,10 +48,37 @@ const DEFAULT_RETRY_MAX_DELAY = 10000;
 const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
 const DEFAULT_MAX_QUEUE_SIZE = 1000;
 const DEFAULT_OVERFLOW_STRATEGY: TelegramQueueOverflowStrategy = 'dropOldest';
+const DEFAULT_QUEUE_PROTECTED_LEVEL: PinoLevelName = 'fatal';
 const DEFAULT_DEDUP_WINDOW_MS = 0;
+const DEFAULT_DEDUP_MODE: TelegramDedupMode = 'suppress';
+const DEFAULT_DEDUP_STACK_FRAMES = 5;
+const DEFAULT_THROTTLE_WINDOW_MS = 60_000;
+const DEFAULT_BATCH_WINDOW_MS = 0;
+const DEFAULT_BATCH_MAX_SIZE = 20;
+const DEFAULT_SPOOL_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_SPOOL_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 0;
+const DEFAULT_CIRCUIT_BREAKER_RESET_MS = 30_000;
+const DEFAULT_STATS_INTERVAL_MS = 60_000;
+const DEFAULT_RATE_LIMIT_PER_SECOND = 30;
+const DEFAULT_GROUP_RATE_LIMIT_PER_MINUTE = 20;
+const DEFAULT_CHAT_RATE_LIMIT_PER_SECOND = 0;
+const WEEKDAYS: TelegramWeekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
 const TRUNCATION_SUFFIX = '...';
+const MARKDOWN_V2_TRUNCATION_SUFFIX = '\\.\\.\\.';
 const HTML_VOID_TAGS = new Set(['br']);
 const HTML_ENTITY_PATTERN = /^&(?:#\d+|#x[\da-f]+|[a-z][a-z0-9]+);$/i;
+const MARKDOWN_V2_MARKERS = ['||', '__', '*', '_', '~', '`'];
+const MARKDOWN_V2_CODE_LANGUAGE_PATTERN = /^[\w+-]*\n/;
+const MARKDOWN_V2_LINK_PATTERN = /^!?\[((?:\\.|[^\]\\])*)\]\((?:\\.|[^)\\])*\)/;
+const HTML_NAMED_ENTITIES: Readonly<Record<string, string>> = Object.freeze({
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+});
 const DEFAULT_REDACT_KEYS = Object.freeze([
   'token',
   'password',
@@ -40,6 +88,28 @@ const DEFAULT_REDACT_KEYS = Object.freeze([
   'apikey',
 ]);
 const REDACTED_VALUE = '[REDACTED]';
+const MEDIA_FILE_DEFAULTS: Readonly<
+  Record<TelegramMediaField, { filename: string; contentType: string }>
+> = Object.freeze({
+  photo: { filename: 'photo.jpg', contentType: 'image/jpeg' },
+  document: { filename: 'document.bin', contentType: 'application/octet-stream' },
+  video: { filename: 'video.mp4', contentType: 'video/mp4' },
+  audio: { filename: 'audio.mp3', contentType: 'audio/mpeg' },
+  voice: { filename: 'voice.ogg', contentType: 'audio/ogg' },
+  animation: { filename: 'animation.mp4', contentType: 'video/mp4' },
+});
+
+/** Методы Bot API, отправляющие одиночное медиа, и поле файла в их полезной нагрузке. */
+export const MEDIA_METHOD_FIELDS = Object.freeze({
+  sendPhoto: 'photo',
+  sendDocument: 'document',
+  sendVideo: 'video',
+  sendAudio: 'audio',
+  sendVoice: 'voice',
+  sendAnimation: 'animation',
+} as const);
+
+export type TelegramMediaMethod = keyof typeof MEDIA_METHOD_FIELDS;
 
 const PINO_LEVEL_VALUES = Object.freeze({
   trace: 10,
@@ -80,7 +150,7 @@ export function normalizeOptions(options: TelegramTransportOptions): NormalizedO
     throw createConfigurationError('Не найдено ни одного целевого чата', 'NO_CHAT_TARGET');
   }
 
-  const parseMode = options.parseMode ?? 'HTML';
+  const parseMode = normalizeParseMode(options.parseMode, 'parseMode');
   const includeContext = options.includeContext ?? true;
   const contextKeys = Array.isArray(options.contextKeys)
     ? options.contextKeys
@@ -89,6 +159,9 @@ export function normalizeOptions(options: TelegramTransportOptions): NormalizedO
       : DEFAULT_CONTEXT_KEYS;
 
   const minLevel = resolveMinLevel(options.minLevel);
+  const queueProtectedLevel = resolveMinLevel(
+    options.queueProtectedLevel ?? DEFAULT_QUEUE_PROTECTED_LEVEL,
+  );
 
   const retryAttempts = Math.max(1, Math.floor(options.retryAttempts ?? DEFAULT_RETRY_ATTEMPTS));
   const retryInitialDelay = Math.max(0, options.retryInitialDelay ?? DEFAULT_RETRY_INITIAL_DELAY);
@@ -101,38 +174,115 @@ export function normalizeOptions(options: TelegramTransportOptions): NormalizedO
   const maxQueueSize = normalizeMaxQueueSize(options.maxQueueSize);
   const overflowStrategy = normalizeOverflowStrategy(options.overflowStrategy);
   const dedupWindowMs = normalizeDedupWindowMs(options.dedupWindowMs);
-  const redactKeys = normalizeRedactKeys(options.redactKeys);
-  const formatPreset = normalizeFormatPreset(options.formatPreset);
+  const dedupMode = normalizeDedupMode(options.dedupMode);
+  const dedupStrategy = normalizeDedupStrategy(options.dedupStrategy);
+  const dedupKeys = normalizeDedupKeys(options.dedupKeys);
+  const dedupStackFrames = normalizeDedupStackFrames(options.dedupStackFrames);
+  const sampleRates = normalizeSampleRates(options.sampleRates);
+  const throttleLimit = normalizeThrottleLimit(options.throttleLimit);
+  const throttleWindowMs = normalizeThrottleWindowMs(options.throttleWindowMs);
+  const batchWindowMs = normalizeBatchWindowMs(options.batchWindowMs);
+  const batchMaxSize = normalizeBatchMaxSize(options.batchMaxSize);
+  const spoolDir = normalizeSpoolDir(options.spoolDir);
+  const spoolMaxBytes = normalizeSpoolMaxBytes(options.spoolMaxBytes);
+  const spoolMaxAgeMs = normalizeSpoolMaxAgeMs(options.spoolMaxAgeMs);
+  const circuitBreakerThreshold = normalizeCircuitBreakerThreshold(options.circuitBreakerThreshold);
+  const circuitBreakerResetMs = normalizeCircuitBreakerResetMs(options.circuitBreakerResetMs);
+  const rateLimitPerSecond = normalizeRateLimit(
+    options.rateLimitPerSecond,
+    'rateLimitPerSecond',
+    DEFAULT_RATE_LIMIT_PER_SECOND,
+  );
+  const groupRateLimitPerMinute = normalizeRateLimit(
+    options.groupRateLimitPerMinute,
+    'groupRateLimitPerMinute',
+    DEFAULT_GROUP_RATE_LIMIT_PER_MINUTE,
+  );
+  const chatRateLimitPerSecond = normalizeRateLimit(
+    options.chatRateLimitPerSecond,
+    'chatRateLimitPerSecond',
+    DEFAULT_CHAT_RATE_LIMIT_PER_SECOND,
+  );
+  const statsIntervalMs = normalizeStatsIntervalMs(options.statsIntervalMs);
+  const redactKeys = normalizeRedactKeys(options.redactKeys, 'redactKeys');
+  const errorCauseDepth = normalizeErrorCauseDepth(options.errorCauseDepth);
+  const stackFrameLimit = normalizeStackFrameLimit(options.stackFrameLimit);
+  const stackRoot = normalizeStackRoot(options.stackRoot);
+  const formatPreset = normalizeFormatPreset(options.formatPreset, 'formatPreset');
 
   return {
     botToken,
     targets,
     parseMode,
-    disableNotification: options.disableNotification ?? false,
+    disableNotification: normalizeBooleanOption(
+      options.disableNotification,
+      'disableNotification',
+      false,
+    ),
+    quietHours: normalizeQuietHours(options.quietHours, 'quietHours'),
     disableWebPagePreview: options.disableWebPagePreview ?? true,
     includeContext,
     contextKeys,
-    includeExtras: options.includeExtras ?? DEFAULT_INCLUDE_EXTRAS,
+    includeExtras: normalizeBooleanOption(
+      options.includeExtras,
+      'includeExtras',
+      DEFAULT_INCLUDE_EXTRAS,
+    ),
     extraKeys: options.extraKeys,
     redactKeys,
-    maxMessageLength: options.maxMessageLength ?? DEFAULT_MAX_LENGTH,
+    httpHeaderKeys: normalizeHttpHeaderKeys(options.httpHeaderKeys),
+    errorCauseDepth,
+    stackFrameLimit,
+    collapseLibraryFrames: options.collapseLibraryFrames ?? false,
+    stackRoot,
+    sourceUrlTemplate: normalizeSourceUrlTemplate(options.sourceUrlTemplate),
+    expandableSections: options.expandableSections ?? false,
+    maxMessageLength: normalizeMaxMessageLength(options.maxMessageLength, 'maxMessageLength'),
     splitLongMessages: options.splitLongMessages ?? false,
     dedupWindowMs,
+    dedupMode,
+    dedupStrategy,
+    dedupKeys,
+    dedupStackFrames,
+    sampleRates,
+    throttleLimit,
+    throttleWindowMs,
+    batchWindowMs,
+    batchMaxSize,
     minDelayBetweenMessages: options.minDelayBetweenMessages ?? DEFAULT_MIN_DELAY,
+    rateLimitPerSecond,
+    groupRateLimitPerMinute,
+    chatRateLimitPerSecond,
     minLevel,
     maxQueueSize,
     overflowStrategy,
+    acknowledgeOnEnqueue: normalizeBooleanOption(
+      options.acknowledgeOnEnqueue,
+      'acknowledgeOnEnqueue',
+      false,
+    ),
+    overflowNotice: options.overflowNotice ?? true,
+    queueProtectedLevel,
     retryAttempts,
     retryInitialDelay,
     retryBackoffFactor,
     retryMaxDelay,
     requestTimeoutMs,
+    spoolDir,
+    spoolMaxBytes,
+    spoolMaxAgeMs,
+    circuitBreakerThreshold,
+    circuitBreakerResetMs,
+    onCircuitStateChange: options.onCircuitStateChange,
+    onStats: options.onStats,
+    statsIntervalMs,
     formatMessage: options.formatMessage ?? resolveBuiltInFormatter(formatPreset),
     onDeliveryError: options.onDeliveryError,
+    onDelivered: options.onDelivered,
     send: options.send,
     headings: {
       ...DEFAULT_HEADINGS,
-      ...(options.headings ?? {}),
+      ...normalizeHeadings(options.headings, 'headings'),
     },
   };
 }
@@ -174,7 +324,7 @@ function normalizeTarget(
     return null;
   }
 
-  const { chatId, threadId, minLevel } = entry as TelegramChatTarget & {
+  const { chatId, threadId, minLevel, include, exclude } = entry as TelegramChatTarget & {
     threadId?: unknown;
     minLevel?: TelegramChatTarget['minLevel'];
   };
@@ -182,11 +332,313 @@ function normalizeTarget(
     return null;
   }
 
-  return {
+  const target: NormalizedTelegramChatTarget = {
     chatId,
     threadId: coerceThreadId(threadId) ?? defaultThread,
     minLevel: resolveTargetMinLevel(minLevel),
   };
+  if (include !== undefined) {
+    target.include = normalizeRouteConditions(include, `chatId ${String(chatId)}: include`);
+  }
+  if (exclude !== undefined) {
+    target.exclude = normalizeRouteConditions(exclude, `chatId ${String(chatId)}: exclude`);
+  }
+  const overrides = normalizeTargetOverrides(entry as TelegramChatTarget);
+  if (overrides) {
+    target.overrides = overrides;
+  }
+  return target;
+}
+
+/**
+ * Собирает опции, которые target переопределяет поверх общих настроек.
+ *
+ * @param entry Описание target из опций.
+ * @returns Нормализованные переопределения или undefined, если target их не задаёт.
+ */
+function normalizeTargetOverrides(
+  entry: TelegramChatTarget,
+): NormalizedTargetOverrides | undefined {
+  const overrides: NormalizedTargetOverrides = {};
+  const context = `chatId ${String(entry.chatId)}`;
+
+  if (entry.parseMode !== undefined) {
+    overrides.parseMode = normalizeParseMode(entry.parseMode, `${context}: parseMode`);
+  }
+  if (entry.disableNotification !== undefined) {
+    overrides.disableNotification = normalizeBooleanOption(
+      entry.disableNotification,
+      `${context}: disableNotification`,
+      false,
+    );
+  }
+  if (entry.quietHours !== undefined) {
+    overrides.quietHours = normalizeQuietHours(entry.quietHours, `${context}: quietHours`);
+  }
+  if (entry.includeExtras !== undefined) {
+    overrides.includeExtras = normalizeBooleanOption(
+      entry.includeExtras,
+      `${context}: includeExtras`,
+      DEFAULT_INCLUDE_EXTRAS,
+    );
+  }
+  if (entry.maxMessageLength !== undefined) {
+    overrides.maxMessageLength = normalizeMaxMessageLength(
+      entry.maxMessageLength,
+      `${context}: maxMessageLength`,
+    );
+  }
+  if (entry.redactKeys !== undefined) {
+    overrides.redactKeys = normalizeRedactKeys(entry.redactKeys, `${context}: redactKeys`);
+  }
+  if (entry.headings !== undefined) {
+    overrides.headings = normalizeHeadings(entry.headings, `${context}: headings`);
+  }
+  if (entry.formatPreset !== undefined) {
+    overrides.formatMessage = resolveBuiltInFormatter(
+      normalizeFormatPreset(entry.formatPreset, `${context}: formatPreset`),
+    );
+  }
+
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+/**
+ * Проверяет и компилирует условия маршрутизации target.
+ *
+ * @param value Массив условий из опций.
+ * @param context Описание места в конфигурации для сообщения об ошибке.
+ * @returns Условия с разобранными уровнями и скомпилированными регулярными выражениями.
+ */
+function normalizeRouteConditions(value: unknown, context: string): NormalizedRouteCondition[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${context} должен быть массивом условий маршрутизации`);
+  }
+
+  return value.map((entry, index) => {
+    const where = `${context}[${index}]`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`${where}: условие маршрутизации должно быть объектом`);
+    }
+
+    const { field, equals, matches, flags, exists, minLevel, maxLevel } =
+      entry as TelegramRouteCondition;
+    const condition: NormalizedRouteCondition = {};
+
+    if (field !== undefined) {
+      if (typeof field !== 'string' || field.trim().length === 0) {
+        throw new Error(`${where}: field должен быть непустой строкой`);
+      }
+      condition.field = field.trim();
+    }
+    if (equals !== undefined) {
+      const values = Array.isArray(equals) ? equals : [equals];
+      if (!values.every(isRouteValue)) {
+        throw new Error(`${where}: equals допускает только строки, числа, boolean и null`);
+      }
+      condition.equals = values;
+    }
+    if (matches !== undefined) {
+      if (typeof matches !== 'string') {
+        throw new Error(`${where}: matches должен быть строкой с регулярным выражением`);
+      }
+      try {
+        condition.pattern = new RegExp(matches, flags);
+      } catch (error) {
+        throw new Error(`${where}: некорректное регулярное выражение: ${(error as Error).message}`);
+      }
+    }
+    if (exists !== undefined) {
+      if (typeof exists !== 'boolean') {
+        throw new Error(`${where}: exists должен быть boolean`);
+      }
+      condition.exists = exists;
+    }
+    if (minLevel !== undefined) {
+      condition.minLevel = resolveMinLevel(minLevel);
+    }
+    if (maxLevel !== undefined) {
+      condition.maxLevel = resolveMinLevel(maxLevel);
+    }
+
+    const hasFieldCheck =
+      condition.equals !== undefined ||
+      condition.pattern !== undefined ||
+      condition.exists !== undefined;
+    if (hasFieldCheck && condition.field === undefined) {
+      throw new Error(`${where}: для equals, matches и exists нужно указать field`);
+    }
+    if (
+      condition.field === undefined &&
+      !hasFieldCheck &&
+      condition.minLevel === undefined &&
+      condition.maxLevel === undefined
+    ) {
+      throw new Error(`${where}: условие маршрутизации не содержит проверок`);
+    }
+    return condition;
+  });
+}
+
+/**
+ * Проверяет расписание тихих часов и переводит интервалы в минуты от полуночи.
+ *
+ * @param value Расписание из опций.
+ * @param context Описание места в конфигурации для сообщения об ошибке.
+ */
+function normalizeQuietHours(
+  value: TelegramQuietHours | undefined,
+  context: string,
+): NormalizedQuietHours | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    throw new Error(`${context} должен быть объектом расписания`);
+  }
+
+  const timezone = value.timezone ?? 'UTC';
+  try {
+    getTimeZoneFormatter(timezone);
+  } catch {
+    throw new Error(`${context}: неизвестный часовой пояс ${String(timezone)}`);
+  }
+
+  const hours = Array.isArray(value.hours) ? value.hours : [value.hours];
+  if (hours.length === 0) {
+    throw new Error(`${context}: нужно указать хотя бы один интервал hours`);
+  }
+  const ranges = hours.map((range) => {
+    const match =
+      typeof range === 'string'
+        ? /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(range.trim())
+        : null;
+    const from = match ? parseClockMinutes(match[1], match[2]) : undefined;
+    const to = match ? parseClockMinutes(match[3], match[4]) : undefined;
+    if (from === undefined || to === undefined) {
+      throw new Error(
+        `${context}: интервал должен иметь вид HH:MM-HH:MM, получено ${String(range)}`,
+      );
+    }
+    return { from, to };
+  });
+
+  const days = (value.days ?? [0, 1, 2, 3, 4, 5, 6]).map((day) => {
+    const index =
+      typeof day === 'string' ? WEEKDAYS.indexOf(day.toLowerCase() as TelegramWeekday) : day;
+    if (!Number.isInteger(index) || index < 0 || index > 6) {
+      throw new Error(`${context}: неизвестный день недели ${String(day)}`);
+    }
+    return index;
+  });
+
+  return {
+    timezone,
+    ranges,
+    days,
+    notifyLevel: value.notifyLevel === undefined ? undefined : resolveMinLevel(value.notifyLevel),
+    digest: value.digest ?? false,
+  };
+}
+
+function parseClockMinutes(hours: string, minutes: string): number | undefined {
+  const hour = Number(hours);
+  const minute = Number(minutes);
+  if (hour > 24 || minute > 59 || (hour === 24 && minute !== 0)) {
+    return undefined;
+  }
+  return hour * 60 + minute;
+}
+
+function isRouteValue(value: unknown): value is TelegramRouteValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  );
+}
+
+/**
+ * Проверяет правила include/exclude target для записи лога.
+ *
+ * @param log Запись Pino.
+ * @param target Нормализованный target.
+ * @returns True, если запись подходит хотя бы под одно include (или include не задан)
+ * и не подходит ни под одно exclude.
+ */
+export function matchesTargetRoutes(log: PinoLog, target: NormalizedTelegramChatTarget): boolean {
+  if (
+    target.include &&
+    !target.include.some((condition) => matchesRouteCondition(log, condition))
+  ) {
+    return false;
+  }
+  if (target.exclude?.some((condition) => matchesRouteCondition(log, condition))) {
+    return false;
+  }
+  return true;
+}
+
+function matchesRouteCondition(log: PinoLog, condition: NormalizedRouteCondition): boolean {
+  if (condition.minLevel !== undefined || condition.maxLevel !== undefined) {
+    if (!Number.isFinite(log.level)) {
+      return false;
+    }
+    if (condition.minLevel !== undefined && log.level < condition.minLevel) {
+      return false;
+    }
+    if (condition.maxLevel !== undefined && log.level > condition.maxLevel) {
+      return false;
+    }
+  }
+
+  if (condition.field === undefined) {
+    return true;
+  }
+
+  const value = readLogField(log, condition.field);
+  const hasOtherChecks = condition.equals !== undefined || condition.pattern !== undefined;
+  const mustExist = condition.exists ?? (hasOtherChecks ? undefined : true);
+  if (mustExist !== undefined && (value !== undefined) !== mustExist) {
+    return false;
+  }
+  if (condition.equals && !condition.equals.some((expected) => expected === value)) {
+    return false;
+  }
+  if (condition.pattern) {
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      return false;
+    }
+    condition.pattern.lastIndex = 0;
+    if (!condition.pattern.test(String(value))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Читает поле записи по пути через точку. Ключ, который сам содержит точку
+ * (например, плоское `req.url`), имеет приоритет над вложенным путём.
+ *
+ * @param log Запись Pino.
+ * @param path Путь к полю.
+ */
+export function readLogField(log: PinoLog, path: string): unknown {
+  const record = log as Record<string, unknown>;
+  if (Object.prototype.hasOwnProperty.call(record, path)) {
+    return record[path];
+  }
+
+  let current: unknown = record;
+  for (const key of path.split('.')) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
 }
 
 /**
@@ -261,6 +713,92 @@ function normalizeRequestTimeoutMs(value: TelegramTransportOptions['requestTimeo
   return Math.max(0, Math.trunc(value));
 }
 
+/**
+ * Проверяет максимальную длину сообщения: положительное конечное число, дробная часть отбрасывается.
+ *
+ * @param value Значение из общих опций или опций target.
+ * @param name Имя опции для сообщения об ошибке.
+ */
+function normalizeMaxMessageLength(value: number | undefined, name: string): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_MAX_LENGTH;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+    throw new Error(`${name} должен быть положительным конечным числом`);
+  }
+  return Math.trunc(value);
+}
+
+/**
+ * Проверяет булеву опцию.
+ *
+ * @param value Значение из общих опций или опций target.
+ * @param name Имя опции для сообщения об ошибке.
+ * @param fallback Значение по умолчанию.
+ */
+function normalizeBooleanOption(
+  value: boolean | undefined,
+  name: string,
+  fallback: boolean,
+): boolean {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (typeof value !== 'boolean') {
+    throw new Error(`${name} должен быть boolean`);
+  }
+  return value;
+}
+
+/**
+ * Проверяет режим разметки Telegram.
+ *
+ * @param value Значение из общих опций или опций target.
+ * @param name Имя опции для сообщения об ошибке.
+ */
+function normalizeParseMode(
+  value: TelegramTransportOptions['parseMode'],
+  name: string,
+): NormalizedOptions['parseMode'] {
+  if (value === undefined || value === null) {
+    return 'HTML';
+  }
+  if (value === 'HTML' || value === 'Markdown' || value === 'MarkdownV2') {
+    return value;
+  }
+  throw new Error(`${name} должен быть одним из: HTML, Markdown, MarkdownV2`);
+}
+
+/**
+ * Проверяет переопределения заголовков секций: известные ключи со строковыми значениями.
+ *
+ * @param value Значение из общих опций или опций target.
+ * @param name Имя опции для сообщения об ошибке.
+ */
+function normalizeHeadings(
+  value: TelegramTransportOptions['headings'],
+  name: string,
+): Partial<FormatterHeadings> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${name} должен быть объектом`);
+  }
+
+  const headings: Partial<FormatterHeadings> = {};
+  for (const [key, heading] of Object.entries(value)) {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_HEADINGS, key)) {
+      throw new Error(`${name}: неизвестный заголовок ${key}`);
+    }
+    if (typeof heading !== 'string') {
+      throw new Error(`${name}.${key} должен быть строкой`);
+    }
+    headings[key as keyof FormatterHeadings] = heading;
+  }
+  return headings;
+}
+
 function normalizeMaxQueueSize(value: TelegramTransportOptions['maxQueueSize']): number {
   if (value === undefined || value === null) {
     return DEFAULT_MAX_QUEUE_SIZE;
@@ -287,6 +825,217 @@ function normalizeDedupWindowMs(value: TelegramTransportOptions['dedupWindowMs']
   return Math.max(0, Math.trunc(value));
 }
 
+function normalizeDedupStrategy(
+  value: TelegramTransportOptions['dedupStrategy'],
+): TelegramDedupStrategy {
+  if (value === undefined || value === null) {
+    return 'log';
+  }
+  if (value === 'log' || value === 'fingerprint') {
+    return value;
+  }
+  throw new Error('Неизвестная стратегия ключа dedup: ' + String(value));
+}
+
+function normalizeDedupKeys(value: TelegramTransportOptions['dedupKeys']): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (
+    !Array.isArray(value) ||
+    !value.every((item) => typeof item === 'string' && item.trim().length > 0)
+  ) {
+    throw new Error('dedupKeys должен быть массивом непустых строк');
+  }
+  return value.map((item) => item.trim());
+}
+
+function normalizeDedupStackFrames(value: TelegramTransportOptions['dedupStackFrames']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_DEDUP_STACK_FRAMES;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error('dedupStackFrames должен быть неотрицательным конечным числом');
+  }
+  return Math.trunc(value);
+}
+
+function normalizeSampleRates(
+  value: TelegramTransportOptions['sampleRates'],
+): Record<number, number> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('sampleRates должен быть объектом вида { уровень: доля }');
+  }
+
+  const rates: Record<number, number> = {};
+  for (const [level, rate] of Object.entries(value)) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0 || rate > 1) {
+      throw new Error(`sampleRates.${level} должен быть числом от 0 до 1`);
+    }
+    rates[resolveMinLevel(level as PinoLevelName)] = rate;
+  }
+  return rates;
+}
+
+function normalizeThrottleLimit(value: TelegramTransportOptions['throttleLimit']): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error('throttleLimit должен быть неотрицательным конечным числом');
+  }
+  return Math.trunc(value);
+}
+
+function normalizeThrottleWindowMs(value: TelegramTransportOptions['throttleWindowMs']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_THROTTLE_WINDOW_MS;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error('throttleWindowMs должен быть положительным конечным числом');
+  }
+  return Math.trunc(value);
+}
+
+function normalizeDedupMode(value: TelegramTransportOptions['dedupMode']): TelegramDedupMode {
+  if (value === undefined || value === null) {
+    return DEFAULT_DEDUP_MODE;
+  }
+  if (value === 'suppress' || value === 'edit') {
+    return value;
+  }
+  throw new Error('Неизвестный режим dedup: ' + String(value));
+}
+
+function normalizeBatchWindowMs(value: TelegramTransportOptions['batchWindowMs']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_BATCH_WINDOW_MS;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error('batchWindowMs должен быть числом');
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error('batchWindowMs должен быть конечным числом');
+  }
+  return Math.max(0, Math.trunc(value));
+}
+
+function normalizeBatchMaxSize(value: TelegramTransportOptions['batchMaxSize']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_BATCH_MAX_SIZE;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error('batchMaxSize должен быть числом');
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error('batchMaxSize должен быть конечным числом');
+  }
+  return Math.max(1, Math.trunc(value));
+}
+
+function normalizeSpoolDir(value: TelegramTransportOptions['spoolDir']): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error('spoolDir должен быть строкой');
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function normalizeSpoolMaxBytes(value: TelegramTransportOptions['spoolMaxBytes']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_SPOOL_MAX_BYTES;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error('spoolMaxBytes должен быть числом');
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error('spoolMaxBytes должен быть конечным числом');
+  }
+  return Math.max(1, Math.trunc(value));
+}
+
+function normalizeSpoolMaxAgeMs(value: TelegramTransportOptions['spoolMaxAgeMs']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_SPOOL_MAX_AGE_MS;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error('spoolMaxAgeMs должен быть числом');
+  }
+  if (!Number.isFinite(value)) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return Math.max(1, Math.trunc(value));
+}
+
+function normalizeCircuitBreakerThreshold(
+  value: TelegramTransportOptions['circuitBreakerThreshold'],
+): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_CIRCUIT_BREAKER_THRESHOLD;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error('circuitBreakerThreshold должен быть числом');
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error('circuitBreakerThreshold должен быть конечным числом');
+  }
+  return Math.max(0, Math.trunc(value));
+}
+
+function normalizeCircuitBreakerResetMs(
+  value: TelegramTransportOptions['circuitBreakerResetMs'],
+): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_CIRCUIT_BREAKER_RESET_MS;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error('circuitBreakerResetMs должен быть числом');
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error('circuitBreakerResetMs должен быть конечным числом');
+  }
+  return Math.max(0, Math.trunc(value));
+}
+
+function normalizeStatsIntervalMs(value: TelegramTransportOptions['statsIntervalMs']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_STATS_INTERVAL_MS;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error('statsIntervalMs должен быть числом');
+  }
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error('statsIntervalMs должен быть положительным конечным числом');
+  }
+  return Math.trunc(value);
+}
+
+/**
+ * Проверяет лимит частоты: неотрицательное конечное число, дробные значения допустимы.
+ *
+ * @param value Значение из опций.
+ * @param name Имя опции для сообщения об ошибке.
+ * @param fallback Значение по умолчанию.
+ */
+function normalizeRateLimit(value: number | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error(`${name} должен быть числом`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error(`${name} должен быть конечным числом`);
+  }
+  return Math.max(0, value);
+}
+
 function normalizeOverflowStrategy(
   value: TelegramTransportOptions['overflowStrategy'],
 ): TelegramQueueOverflowStrategy {
@@ -301,34 +1050,105 @@ function normalizeOverflowStrategy(
 
 function normalizeFormatPreset(
   value: TelegramTransportOptions['formatPreset'],
+  name: string,
 ): TelegramFormatPreset {
   if (value === undefined || value === null) {
     return 'default';
   }
-  if (value === 'default' || value === 'compact' || value === 'verbose') {
+  if (value === 'default' || value === 'compact' || value === 'verbose' || value === 'http') {
     return value;
   }
-  throw new Error('Неизвестный встроенный пресет форматирования: ' + String(value));
+  throw new Error(`${name}: неизвестный встроенный пресет форматирования ${String(value)}`);
+}
+
+function resolveBuiltInFormatter(
+  preset: TelegramFormatPreset,
+): NonNullable<NormalizedOptions['formatMessage']> {
+  if (preset === 'compact') {
+    return createCompactFormatter();
+  }
+  if (preset === 'verbose') {
+    return createVerboseFormatter();
+  }
+  if (preset === 'http') {
+    return createHttpFormatter();
+  }
+  return createMediaFormatter();
+}
+
+function normalizeErrorCauseDepth(value: TelegramTransportOptions['errorCauseDepth']): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_ERROR_CAUSE_DEPTH;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error('errorCauseDepth должен быть неотрицательным конечным числом');
+  }
+  return Math.trunc(value);
+}
+
+function normalizeStackFrameLimit(value: TelegramTransportOptions['stackFrameLimit']): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error('stackFrameLimit должен быть неотрицательным конечным числом');
+  }
+  return Math.trunc(value);
+}
+
+/**
+ * Приводит корень проекта к виду с завершающим разделителем, чтобы при переписывании путей
+ * не задеть каталоги с тем же префиксом.
+ */
+function normalizeStackRoot(value: TelegramTransportOptions['stackRoot']): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error('stackRoot должен быть непустой строкой');
+  }
+  const root = value.trim();
+  if (root.endsWith('/') || root.endsWith('\\')) {
+    return root;
+  }
+  return `${root}${root.includes('\\') && !root.includes('/') ? '\\' : '/'}`;
+}
+
+function normalizeSourceUrlTemplate(
+  value: TelegramTransportOptions['sourceUrlTemplate'],
+): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.includes('{file}')) {
+    throw new Error('sourceUrlTemplate должен быть строкой с подстановкой {file}');
+  }
+  return value;
 }
 
-function resolveBuiltInFormatter(
-  preset: TelegramFormatPreset,
-): NonNullable<NormalizedOptions['formatMessage']> {
-  if (preset === 'compact') {
-    return createCompactFormatter();
-  }
-  if (preset === 'verbose') {
-    return createVerboseFormatter();
+function normalizeRedactKeys(
+  value: TelegramTransportOptions['redactKeys'],
+  name: string,
+): string[] {
+  if (value === undefined || value === null) {
+    return [...DEFAULT_REDACT_KEYS];
   }
-  return createMediaFormatter();
+  return normalizeKeyList(value, name);
 }
 
-function normalizeRedactKeys(value: TelegramTransportOptions['redactKeys']): string[] {
+function normalizeHttpHeaderKeys(value: TelegramTransportOptions['httpHeaderKeys']): string[] {
   if (value === undefined || value === null) {
-    return [...DEFAULT_REDACT_KEYS];
+    return [];
   }
+  return normalizeKeyList(value, 'httpHeaderKeys');
+}
+
+/**
+ * Приводит список ключей к нижнему регистру без пустых строк и повторов.
+ */
+function normalizeKeyList(value: unknown, optionName: string): string[] {
   if (!Array.isArray(value)) {
-    throw new Error('redactKeys должен быть массивом строк');
+    throw new Error(`${optionName} должен быть массивом строк`);
   }
 
   const normalized = value
@@ -339,6 +1159,28 @@ function normalizeRedactKeys(value: TelegramTransportOptions['redactKeys']): str
   return Array.from(new Set(normalized));
 }
 
+/**
+ * Возвращает имя файла и MIME-тип по умолчанию для загрузки медиа.
+ *
+ * @param field Поле медиа в полезной нагрузке Telegram.
+ * @returns Имя файла и content-type по умолчанию.
+ */
+export function getMediaFileDefaults(field: TelegramMediaField): {
+  filename: string;
+  contentType: string;
+} {
+  return MEDIA_FILE_DEFAULTS[field];
+}
+
+/**
+ * Проверяет, является ли метод отправкой одиночного медиа.
+ *
+ * @param method Имя метода Bot API.
+ */
+export function isMediaMethod(method: string): method is TelegramMediaMethod {
+  return Object.prototype.hasOwnProperty.call(MEDIA_METHOD_FIELDS, method);
+}
+
 /**
  * Собирает URL вызова метода Telegram Bot API.
  *
@@ -365,6 +1207,36 @@ export function escapeHtml(value: string): string {
     .replace(/'/g, '&#39;');
 }
 
+/**
+ * Экранирует зарезервированные символы MarkdownV2 для вставки обычного текста.
+ *
+ * @param value Строка, подлежащая экранированию.
+ * @returns Строка, безопасная для parse_mode=MarkdownV2.
+ */
+export function escapeMarkdownV2(value: string): string {
+  return value.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+}
+
+/**
+ * Экранирует URL внутри ссылки MarkdownV2 `[text](url)`: значимы только `)` и backslash.
+ *
+ * @param value URL ссылки.
+ * @returns Строка, безопасная для вставки в круглые скобки ссылки.
+ */
+export function escapeMarkdownV2Url(value: string): string {
+  return value.replace(/[)\\]/g, '\\$&');
+}
+
+/**
+ * Экранирует содержимое блока кода MarkdownV2: внутри `pre` и `code` значимы только backtick и backslash.
+ *
+ * @param value Строка, подлежащая экранированию.
+ * @returns Строка, безопасная для вставки между backticks.
+ */
+export function escapeMarkdownV2Code(value: string): string {
+  return value.replace(/[`\\]/g, '\\$&');
+}
+
 /**
  * Обрезает plain-text строку до заданной длины, добавляя многоточие при необходимости.
  *
@@ -400,43 +1272,44 @@ export function truncateHtml(
   text: string,
   maxLength: number,
 ): { text: string; truncated: boolean } {
-  if (text.length <= maxLength) {
-    return { text, truncated: false };
-  }
-  if (maxLength <= 0) {
-    return { text: '', truncated: text.length > 0 };
-  }
-  if (maxLength <= TRUNCATION_SUFFIX.length) {
-    return { text: TRUNCATION_SUFFIX.slice(0, maxLength), truncated: true };
-  }
-
-  const tokens = tokenizeHtml(text);
-  let prefix = '';
-  let currentLength = 0;
-  let openTags: HtmlOpenTag[] = [];
-
-  for (const token of tokens) {
-    const nextLength = currentLength + token.value.length;
-    const nextOpenTags = updateOpenTags(openTags, token);
-    const closingTags = buildClosingTags(nextOpenTags);
+  return truncateMarkup(text, maxLength, tokenizeHtml, TRUNCATION_SUFFIX);
+}
 
-    if (nextLength + TRUNCATION_SUFFIX.length + closingTags.length > maxLength) {
-      break;
-    }
+/**
+ * Обрезает MarkdownV2-текст, не разрывая escape-последовательности, ссылки и блоки кода
+ * и закрывая открытые сущности.
+ *
+ * @param text Исходная строка с разметкой MarkdownV2.
+ * @param maxLength Максимальный размер строки.
+ * @returns Усечённая безопасная MarkdownV2-строка и флаг сокращения.
+ */
+export function truncateMarkdownV2(
+  text: string,
+  maxLength: number,
+): { text: string; truncated: boolean } {
+  return truncateMarkup(text, maxLength, tokenizeMarkdownV2, MARKDOWN_V2_TRUNCATION_SUFFIX);
+}
 
-    prefix += token.value;
-    currentLength = nextLength;
-    openTags = nextOpenTags;
+/**
+ * Обрезает текст с учётом режима разметки Telegram.
+ *
+ * @param text Исходная строка.
+ * @param maxLength Максимальный размер строки.
+ * @param parseMode Режим разметки сообщения.
+ * @returns Усечённая строка и флаг сокращения.
+ */
+export function truncateFormattedText(
+  text: string,
+  maxLength: number,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+): { text: string; truncated: boolean } {
+  if (parseMode === 'HTML') {
+    return truncateHtml(text, maxLength);
   }
-
-  if (!prefix) {
-    return { text: TRUNCATION_SUFFIX.slice(0, maxLength), truncated: true };
+  if (parseMode === 'MarkdownV2') {
+    return truncateMarkdownV2(text, maxLength);
   }
-
-  return {
-    text: `${prefix}${TRUNCATION_SUFFIX}${buildClosingTags(openTags)}`,
-    truncated: true,
-  };
+  return truncateText(text, maxLength);
 }
 
 /**
@@ -473,58 +1346,60 @@ export function splitText(text: string, maxLength: number): string[] {
  * @returns Последовательность HTML-safe частей.
  */
 export function splitHtml(text: string, maxLength: number): string[] {
-  if (maxLength <= 0) {
-    return [truncateHtml(text, maxLength).text];
-  }
-  if (text.length <= maxLength) {
-    return [text];
-  }
-
-  const tokens = tokenizeHtml(text);
-  const parts: string[] = [];
-  let openTags: HtmlOpenTag[] = [];
-  let currentPart = '';
-  let currentPartHasTokens = false;
-  let index = 0;
-
-  while (index < tokens.length) {
-    if (!currentPart) {
-      currentPart = buildOpeningTags(openTags);
-      currentPartHasTokens = false;
-    }
-
-    const token = tokens[index];
-    const nextOpenTags = updateOpenTags(openTags, token);
-    const candidate = `${currentPart}${token.value}${buildClosingTags(nextOpenTags)}`;
-
-    if (candidate.length <= maxLength) {
-      currentPart += token.value;
-      currentPartHasTokens = true;
-      openTags = nextOpenTags;
-      index += 1;
-      continue;
-    }
+  return splitMarkup(text, maxLength, tokenizeHtml, TRUNCATION_SUFFIX);
+}
 
-    if (currentPartHasTokens) {
-      parts.push(`${currentPart}${buildClosingTags(openTags)}`);
-      currentPart = '';
-      currentPartHasTokens = false;
-      continue;
-    }
+/**
+ * Разбивает MarkdownV2-текст на несколько валидных частей: открытые сущности закрываются
+ * в конце части и открываются заново в начале следующей.
+ *
+ * @param text Исходная строка с разметкой MarkdownV2.
+ * @param maxLength Максимальная длина одной части.
+ * @returns Последовательность MarkdownV2-safe частей.
+ */
+export function splitMarkdownV2(text: string, maxLength: number): string[] {
+  return splitMarkup(text, maxLength, tokenizeMarkdownV2, MARKDOWN_V2_TRUNCATION_SUFFIX);
+}
 
-    const remainingHtml = `${buildOpeningTags(openTags)}${tokens
-      .slice(index)
-      .map((item) => item.value)
-      .join('')}`;
-    parts.push(truncateHtml(remainingHtml, maxLength).text);
-    return parts;
+/**
+ * Разбивает текст на части с учётом режима разметки Telegram.
+ *
+ * @param text Исходная строка.
+ * @param maxLength Максимальная длина одной части.
+ * @param parseMode Режим разметки сообщения.
+ * @returns Последовательность частей в исходном порядке.
+ */
+export function splitFormattedText(
+  text: string,
+  maxLength: number,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+): string[] {
+  if (parseMode === 'HTML') {
+    return splitHtml(text, maxLength);
   }
-
-  if (currentPartHasTokens || parts.length === 0) {
-    parts.push(`${currentPart}${buildClosingTags(openTags)}`);
+  if (parseMode === 'MarkdownV2') {
+    return splitMarkdownV2(text, maxLength);
   }
+  return splitText(text, maxLength);
+}
 
-  return parts;
+/**
+ * Удаляет разметку Telegram и превращает текст в plain-text: теги и маркеры отбрасываются,
+ * HTML entities и escape-последовательности MarkdownV2 раскрываются, от ссылок остаётся текст.
+ *
+ * @param text Исходная строка с разметкой.
+ * @param parseMode Режим разметки, в котором записан текст.
+ * @returns Строка, пригодная для отправки без parse_mode.
+ */
+export function stripMarkup(
+  text: string,
+  parseMode: NormalizedOptions['parseMode'] | undefined,
+): string {
+  if (!parseMode) {
+    return text;
+  }
+  const tokens = parseMode === 'HTML' ? tokenizeHtml(text) : tokenizeMarkdownV2(text);
+  return tokens.map((token) => token.plain ?? token.value).join('');
 }
 
 /**
@@ -572,6 +1447,26 @@ export function redactSensitiveData(value: unknown, redactKeys: string[]): unkno
   return cloneUnknownValue(value, redactSet);
 }
 
+/**
+ * Создаёт копию HTTP-заголовков, в которой значения всех заголовков, кроме разрешённых,
+ * заменены маркером.
+ *
+ * @param headers Объект заголовков из req.headers или res.headers.
+ * @param allowedKeys Имена заголовков в нижнем регистре, значения которых остаются как есть.
+ * @returns Новый объект заголовков; не-объекты возвращаются без изменений.
+ */
+export function redactHttpHeaders(headers: unknown, allowedKeys: string[]): unknown {
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+    return headers;
+  }
+  return Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [
+      key,
+      allowedKeys.includes(key.toLowerCase()) ? cloneUnknownValue(value) : REDACTED_VALUE,
+    ]),
+  );
+}
+
 function cloneUnknownValue(value: unknown, redactSet?: ReadonlySet<string>): unknown {
   if (value === null || value === undefined) {
     return value;
@@ -610,23 +1505,155 @@ function cloneUnknownValue(value: unknown, redactSet?: ReadonlySet<string>): unk
   return clone;
 }
 
-type HtmlTokenKind = 'text' | 'entity' | 'tag';
-type HtmlTagKind = 'open' | 'close' | 'self';
+interface MarkupOpenEntity {
+  name: string;
+  open: string;
+  close: string;
+}
 
-interface HtmlToken {
-  kind: HtmlTokenKind;
+interface MarkupToken {
   value: string;
-  tagKind?: HtmlTagKind;
-  tagName?: string;
+  /** Представление токена без разметки; по умолчанию совпадает с value. */
+  plain?: string;
+  opens?: MarkupOpenEntity;
+  closes?: string;
 }
 
-interface HtmlOpenTag {
-  name: string;
-  value: string;
+type MarkupTokenizer = (text: string) => MarkupToken[];
+
+function truncateMarkup(
+  text: string,
+  maxLength: number,
+  tokenize: MarkupTokenizer,
+  suffix: string,
+): { text: string; truncated: boolean } {
+  if (text.length <= maxLength) {
+    return { text, truncated: false };
+  }
+  if (maxLength <= 0) {
+    return { text: '', truncated: text.length > 0 };
+  }
+  if (maxLength <= suffix.length) {
+    return { text: sliceMarkup(suffix, maxLength, tokenize), truncated: true };
+  }
+
+  const tokens = tokenize(text);
+  let prefix = '';
+  let currentLength = 0;
+  let openEntities: MarkupOpenEntity[] = [];
+
+  for (const token of tokens) {
+    const nextLength = currentLength + token.value.length;
+    const nextOpenEntities = updateOpenEntities(openEntities, token);
+    const closing = buildClosingMarkup(nextOpenEntities);
+
+    if (nextLength + suffix.length + closing.length > maxLength) {
+      break;
+    }
+
+    prefix += token.value;
+    currentLength = nextLength;
+    openEntities = nextOpenEntities;
+  }
+
+  if (!prefix) {
+    return { text: suffix, truncated: true };
+  }
+
+  return {
+    text: `${prefix}${suffix}${buildClosingMarkup(openEntities)}`,
+    truncated: true,
+  };
+}
+
+/**
+ * Берёт из строки разметки столько целых токенов, сколько помещается в maxLength.
+ */
+function sliceMarkup(text: string, maxLength: number, tokenize: MarkupTokenizer): string {
+  let result = '';
+  for (const token of tokenize(text)) {
+    if (result.length + token.value.length > maxLength) {
+      break;
+    }
+    result += token.value;
+  }
+  return result;
+}
+
+function splitMarkup(
+  text: string,
+  maxLength: number,
+  tokenize: MarkupTokenizer,
+  suffix: string,
+): string[] {
+  if (maxLength <= 0) {
+    return [truncateMarkup(text, maxLength, tokenize, suffix).text];
+  }
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const tokens = tokenize(text);
+  const parts: string[] = [];
+  let openEntities: MarkupOpenEntity[] = [];
+  let currentPart = '';
+  let currentPartTokens = 0;
+  // Открывающие токены в конце части, после которых ещё нет содержимого.
+  let trailingOpenings: MarkupToken[] = [];
+  let index = 0;
+
+  while (index < tokens.length) {
+    if (!currentPart) {
+      currentPart = buildOpeningMarkup(openEntities);
+      currentPartTokens = 0;
+      trailingOpenings = [];
+    }
+
+    const token = tokens[index];
+    const nextOpenEntities = updateOpenEntities(openEntities, token);
+    const candidate = `${currentPart}${token.value}${buildClosingMarkup(nextOpenEntities)}`;
+
+    if (candidate.length <= maxLength) {
+      currentPart += token.value;
+      currentPartTokens += 1;
+      trailingOpenings = token.opens ? [...trailingOpenings, token] : [];
+      openEntities = nextOpenEntities;
+      index += 1;
+      continue;
+    }
+
+    if (currentPartTokens > 0) {
+      // Пустая пара вроде `<blockquote expandable></blockquote>` в конце части не нужна:
+      // такие теги переносятся в начало следующей части вместе с содержимым.
+      if (trailingOpenings.length > 0 && trailingOpenings.length < currentPartTokens) {
+        const trailingLength = trailingOpenings.reduce((sum, item) => sum + item.value.length, 0);
+        currentPart = currentPart.slice(0, -trailingLength);
+        openEntities = openEntities.slice(0, -trailingOpenings.length);
+        index -= trailingOpenings.length;
+      }
+      parts.push(`${currentPart}${buildClosingMarkup(openEntities)}`);
+      currentPart = '';
+      currentPartTokens = 0;
+      continue;
+    }
+
+    const remaining = `${buildOpeningMarkup(openEntities)}${tokens
+      .slice(index)
+      .map((item) => item.value)
+      .join('')}`;
+    parts.push(truncateMarkup(remaining, maxLength, tokenize, suffix).text);
+    return parts;
+  }
+
+  if (currentPartTokens > 0 || parts.length === 0) {
+    parts.push(`${currentPart}${buildClosingMarkup(openEntities)}`);
+  }
+
+  return parts;
 }
 
-function tokenizeHtml(text: string): HtmlToken[] {
-  const tokens: HtmlToken[] = [];
+function tokenizeHtml(text: string): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
   let index = 0;
 
   while (index < text.length) {
@@ -644,23 +1671,19 @@ function tokenizeHtml(text: string): HtmlToken[] {
       continue;
     }
 
-    const codePoint = text.codePointAt(index);
-    if (codePoint === undefined) {
+    const value = readCodePoint(text, index);
+    if (!value) {
       break;
     }
 
-    const value = String.fromCodePoint(codePoint);
-    tokens.push({
-      kind: 'text',
-      value,
-    });
+    tokens.push({ value });
     index += value.length;
   }
 
   return tokens;
 }
 
-function readHtmlTagToken(text: string, index: number): HtmlToken | undefined {
+function readHtmlTagToken(text: string, index: number): MarkupToken | undefined {
   if (text[index] !== '<') {
     return undefined;
   }
@@ -673,34 +1696,23 @@ function readHtmlTagToken(text: string, index: number): HtmlToken | undefined {
   const value = text.slice(index, closingIndex + 1);
   const content = value.slice(1, -1).trim();
   if (!content || content.startsWith('!') || content.startsWith('?')) {
-    return { kind: 'tag', value, tagKind: 'self' };
+    return { value, plain: '' };
   }
 
   if (content.startsWith('/')) {
-    const tagName = extractHtmlTagName(content.slice(1));
-    return {
-      kind: 'tag',
-      value,
-      tagKind: tagName ? 'close' : 'self',
-      tagName,
-    };
+    return { value, plain: '', closes: extractHtmlTagName(content.slice(1)) };
   }
 
   const normalizedContent = content.replace(/\/\s*$/, '').trim();
   const tagName = extractHtmlTagName(normalizedContent);
-  if (!tagName) {
-    return { kind: 'tag', value, tagKind: 'self' };
+  if (!tagName || /\/\s*$/.test(content) || HTML_VOID_TAGS.has(tagName)) {
+    return { value, plain: '' };
   }
 
-  return {
-    kind: 'tag',
-    value,
-    tagKind: /\/\s*$/.test(content) || HTML_VOID_TAGS.has(tagName) ? 'self' : 'open',
-    tagName,
-  };
+  return { value, plain: '', opens: { name: tagName, open: value, close: `</${tagName}>` } };
 }
 
-function readHtmlEntityToken(text: string, index: number): HtmlToken | undefined {
+function readHtmlEntityToken(text: string, index: number): MarkupToken | undefined {
   if (text[index] !== '&') {
     return undefined;
   }
@@ -715,10 +1727,19 @@ function readHtmlEntityToken(text: string, index: number): HtmlToken | undefined
     return undefined;
   }
 
-  return {
-    kind: 'entity',
-    value,
-  };
+  return { value, plain: decodeHtmlEntity(value) };
+}
+
+function decodeHtmlEntity(entity: string): string {
+  const body = entity.slice(1, -1);
+  if (body.startsWith('#')) {
+    const codePoint =
+      body[1] === 'x' || body[1] === 'X'
+        ? parseInt(body.slice(2), 16)
+        : parseInt(body.slice(1), 10);
+    return codePoint >= 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  }
+  return HTML_NAMED_ENTITIES[body.toLowerCase()] ?? entity;
 }
 
 function extractHtmlTagName(value: string): string | undefined {
@@ -726,36 +1747,103 @@ function extractHtmlTagName(value: string): string | undefined {
   return match?.[1].toLowerCase();
 }
 
-function updateOpenTags(openTags: HtmlOpenTag[], token: HtmlToken): HtmlOpenTag[] {
-  if (token.kind !== 'tag' || !token.tagName) {
-    return openTags;
+/**
+ * Разбирает MarkdownV2 на неделимые токены: escape-последовательности, ссылки целиком,
+ * маркеры форматирования и блоки кода. Внутри кода значимы только `\` и закрывающие backticks.
+ */
+function tokenizeMarkdownV2(text: string): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
+  const openMarkers: string[] = [];
+  let index = 0;
+
+  const toggle = (marker: string, open = marker, close = marker): MarkupToken => {
+    if (openMarkers[openMarkers.length - 1] === marker) {
+      openMarkers.pop();
+      return { value: close, plain: '', closes: marker };
+    }
+    openMarkers.push(marker);
+    return { value: open, plain: '', opens: { name: marker, open, close } };
+  };
+
+  while (index < text.length) {
+    const inCode = openMarkers[openMarkers.length - 1];
+    const char = text[index];
+
+    if (char === '\\' && index + 1 < text.length) {
+      const escaped = readCodePoint(text, index + 1);
+      const value = `\\${escaped}`;
+      tokens.push({ value, plain: escaped });
+      index += value.length;
+      continue;
+    }
+
+    if (inCode === '```' || inCode === '`') {
+      if (text.startsWith(inCode, index)) {
+        tokens.push(toggle(inCode));
+        index += inCode.length;
+        continue;
+      }
+    } else if (text.startsWith('```', index)) {
+      const language = MARKDOWN_V2_CODE_LANGUAGE_PATTERN.exec(text.slice(index + 3));
+      const open = `\`\`\`${language?.[0] ?? ''}`;
+      tokens.push(toggle('```', open, '```'));
+      index += open.length;
+      continue;
+    } else {
+      const link = MARKDOWN_V2_LINK_PATTERN.exec(text.slice(index));
+      if (link) {
+        tokens.push({ value: link[0], plain: link[1].replace(/\\(.)/g, '$1') });
+        index += link[0].length;
+        continue;
+      }
+
+      const marker = MARKDOWN_V2_MARKERS.find((item) => text.startsWith(item, index));
+      if (marker) {
+        tokens.push(toggle(marker));
+        index += marker.length;
+        continue;
+      }
+    }
+
+    const value = readCodePoint(text, index);
+    if (!value) {
+      break;
+    }
+    tokens.push({ value });
+    index += value.length;
   }
 
-  if (token.tagKind === 'open') {
-    return [
-      ...openTags,
-      {
-        name: token.tagName,
-        value: token.value,
-      },
-    ];
+  return tokens;
+}
+
+function readCodePoint(text: string, index: number): string {
+  const codePoint = text.codePointAt(index);
+  return codePoint === undefined ? '' : String.fromCodePoint(codePoint);
+}
+
+function updateOpenEntities(
+  openEntities: MarkupOpenEntity[],
+  token: MarkupToken,
+): MarkupOpenEntity[] {
+  if (token.opens) {
+    return [...openEntities, token.opens];
   }
 
-  if (token.tagKind === 'close' && openTags[openTags.length - 1]?.name === token.tagName) {
-    return openTags.slice(0, -1);
+  if (token.closes && openEntities[openEntities.length - 1]?.name === token.closes) {
+    return openEntities.slice(0, -1);
   }
 
-  return openTags;
+  return openEntities;
 }
 
-function buildOpeningTags(openTags: HtmlOpenTag[]): string {
-  return openTags.map((tag) => tag.value).join('');
+function buildOpeningMarkup(openEntities: MarkupOpenEntity[]): string {
+  return openEntities.map((entity) => entity.open).join('');
 }
 
-function buildClosingTags(openTags: HtmlOpenTag[]): string {
-  return [...openTags]
+function buildClosingMarkup(openEntities: MarkupOpenEntity[]): string {
+  return [...openEntities]
     .reverse()
-    .map((tag) => `</${tag.name}>`)
+    .map((entity) => entity.close)
     .join('');
 }
 
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createLogFingerprint, LogSampler } from '../src/log-sampler';
+
+describe('LogSampler', () => {
+  it('samples records by level and passes other levels untouched', () => {
+    const draws = [0.05, 0.5, 0.09, 0.95];
+    const sampler = new LogSampler({
+      sampleRates: { 40: 0.1 },
+      throttleLimit: 0,
+      throttleWindowMs: 60_000,
+      random: () => draws.shift() ?? 1,
+    });
+
+    const warns = Array.from({ length: 4 }, () => sampler.admit({ level: 40, msg: 'slow' }));
+
+    expect(warns).toEqual([true, false, true, false]);
+    expect(sampler.admit({ level: 50, msg: 'boom' })).toBe(true);
+  });
+
+  it('throttles records sharing a fingerprint within the sliding window', () => {
+    let now = 0;
+    const sampler = new LogSampler({
+      sampleRates: {},
+      throttleLimit: 2,
+      throttleWindowMs: 1000,
+      now: () => now,
+    });
+    const admit = (id: number) =>
+      sampler.admit({ level: 50, msg: `user ${id} not found`, err: { message: `id=${id}` } });
+
+    expect([admit(1), admit(2), admit(3)]).toEqual([true, true, false]);
+    expect(sampler.admit({ level: 50, msg: 'other failure' })).toBe(true);
+
+    now = 1000;
+    expect(admit(4)).toBe(true);
+  });
+});
+
+describe('createLogFingerprint', () => {
+  it('ignores numbers, UUIDs and hex identifiers in msg and err.message', () => {
+    const first = createLogFingerprint({
+      level: 50,
+      msg: 'order 1042 failed for 3f2b6c1e-8d4a-4b7e-9c2d-1a2b3c4d5e6f',
+      err: { message: 'timeout after 30.5s on 5f3a9c2e77b1' },
+    });
+    const second = createLogFingerprint({
+      level: 50,
+      msg: 'order 7 failed for 0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+      err: { message: 'timeout after 2s on 00ff00ff00ff' },
+    });
+
+    expect(first).toBe(second);
+    expect(createLogFingerprint({ level: 50, msg: 'order 7 cancelled' })).not.toBe(second);
+  });
+});
@@ -0,0 +1,129 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, expect, it } from 'vitest';
+import { createMetricsHandler, formatPrometheusMetrics } from '../src/metrics';
+import type { TelegramTransportStats } from '../src/types';
+
+function createStats(overrides: Partial<TelegramTransportStats> = {}): TelegramTransportStats {
+  return {
+    queueDepth: 2,
+    sent: 5,
+    failed: 1,
+    retried: 3,
+    deduplicated: 4,
+    suppressed: 6,
+    dropped: 7,
+    rateLimited: 2,
+    targets: {
+      '-100:7': {
+        queueDepth: 2,
+        sent: 5,
+        failed: 1,
+        retried: 3,
+        deduplicated: 4,
+        suppressed: 6,
+        dropped: 7,
+      },
+    },
+    methods: { sendMessage: { sent: 5, failed: 1, retried: 3, rateLimited: 2 } },
+    latency: {
+      count: 5,
+      p50: 120,
+      p90: 480,
+      p99: 900,
+      max: 950,
+      totalCount: 12,
+      totalMs: 3400,
+    },
+    circuitBreaker: {
+      state: 'open',
+      consecutiveFailures: 3,
+      totalFailures: 3,
+      rejectedRequests: 6,
+      openCount: 1,
+    },
+    ...overrides,
+  };
+}
+
+describe('formatPrometheusMetrics', () => {
+  it('renders target, method, latency and circuit metrics in exposition format', () => {
+    const text = formatPrometheusMetrics(createStats(), { labels: { service: 'billing' } });
+
+    expect(text).toContain('# TYPE pino_telegram_queue_depth gauge');
+    expect(text).toContain('pino_telegram_queue_depth{service="billing",target="-100:7"} 2');
+    expect(text).toContain('# TYPE pino_telegram_dropped_total counter');
+    expect(text).toContain('pino_telegram_dropped_total{service="billing",target="-100:7"} 7');
+    expect(text).toContain('# TYPE pino_telegram_suppressed_total counter');
+    expect(text).toContain('pino_telegram_suppressed_total{service="billing",target="-100:7"} 6');
+    expect(text).toContain(
+      'pino_telegram_rate_limited_total{service="billing",method="sendMessage"} 2',
+    );
+    expect(text).toContain('# TYPE pino_telegram_delivery_latency_ms summary');
+    expect(text).toContain(
+      'pino_telegram_delivery_latency_ms{service="billing",quantile="0.99"} 900',
+    );
+    expect(text).toContain('pino_telegram_delivery_latency_ms_sum{service="billing"} 3400');
+    expect(text).toContain('pino_telegram_delivery_latency_ms_count{service="billing"} 12');
+    expect(text).toContain('pino_telegram_circuit_state{service="billing",state="open"} 1');
+    expect(text).toContain('pino_telegram_circuit_state{service="billing",state="closed"} 0');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('applies a custom prefix and escapes label values', () => {
+    const text = formatPrometheusMetrics(
+      createStats({
+        targets: {
+          'a"b\\c': {
+            queueDepth: 0,
+            sent: 1,
+            failed: 0,
+            retried: 0,
+            deduplicated: 0,
+            suppressed: 0,
+            dropped: 0,
+          },
+        },
+      }),
+      { prefix: 'app_logs' },
+    );
+
+    expect(text).toContain('app_logs_sent_total{target="a\\"b\\\\c"} 1');
+    expect(text).not.toContain('pino_telegram_');
+  });
+});
+
+describe('createMetricsHandler', () => {
+  it('serves metrics over HTTP from a stream-like source', async () => {
+    const server = createServer(createMetricsHandler({ getStats: () => createStats() }));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+      expect(await response.text()).toContain('pino_telegram_sent_total{target="-100:7"} 5');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('responds with 500 when stats cannot be collected', async () => {
+    const server = createServer(
+      createMetricsHandler(() => {
+        throw new Error('boom');
+      }),
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toContain('boom');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isQuietTime } from '../src/quiet-hours';
+import { normalizeOptions } from '../src/utils';
+import { NormalizedQuietHours, TelegramQuietHours } from '../src/types';
+
+function schedule(quietHours: TelegramQuietHours): NormalizedQuietHours {
+  const options = normalizeOptions({ botToken: 'token', chatId: 1, quietHours });
+  return options.quietHours as NormalizedQuietHours;
+}
+
+describe('isQuietTime', () => {
+  it('keeps an overnight range on the day it started in the schedule timezone', () => {
+    const weekdays = schedule({
+      timezone: 'Europe/Moscow',
+      hours: '22:00-08:00',
+      days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+    });
+
+    // Пятница 23:30 и суббота 07:30 по Москве — продолжение пятничного интервала.
+    expect(isQuietTime(weekdays, Date.parse('2024-03-01T20:30:00Z'))).toBe(true);
+    expect(isQuietTime(weekdays, Date.parse('2024-03-02T04:30:00Z'))).toBe(true);
+    expect(isQuietTime(weekdays, Date.parse('2024-03-02T05:30:00Z'))).toBe(false);
+    // Суббота 23:30 — выходной, тихие часы не начинаются.
+    expect(isQuietTime(weekdays, Date.parse('2024-03-02T20:30:00Z'))).toBe(false);
+  });
+
+  it('supports several daytime ranges and rejects malformed schedules', () => {
+    const lunch = schedule({ hours: ['12:00-13:00', '18:30-24:00'] });
+
+    expect(isQuietTime(lunch, Date.parse('2024-03-01T12:15:00Z'))).toBe(true);
+    expect(isQuietTime(lunch, Date.parse('2024-03-01T13:00:00Z'))).toBe(false);
+    expect(isQuietTime(lunch, Date.parse('2024-03-01T23:59:00Z'))).toBe(true);
+
+    expect(() => schedule({ hours: '25:00-08:00' })).toThrow('HH:MM-HH:MM');
+    expect(() => schedule({ hours: '22:00-08:00', timezone: 'Mars/Olympus' })).toThrow(
+      'часовой пояс',
+    );
+    expect(() => schedule({ hours: '22:00-08:00', days: ['someday' as never] })).toThrow(
+      'день недели',
+    );
+  });
+});
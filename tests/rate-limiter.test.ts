@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, TaskQueue } from '../src/rate-limiter';
+
+/**
+ * Запускает wait и возвращает время (относительно старта), когда он завершился.
+ */
+function track(limiter: RateLimiter, key: string, start: number): Promise<number> {
+  return limiter.wait(key, 0).then(() => Date.now() - start);
+}
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('spreads messages over the bot-wide bucket across all chats', async () => {
+    vi.useFakeTimers();
+    const start = Date.now();
+    const limiter = new RateLimiter({ globalPerSecond: 2 });
+
+    const finished = [
+      track(limiter, '1', start),
+      track(limiter, '2', start),
+      track(limiter, '3', start),
+      track(limiter, '4', start),
+    ];
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await Promise.all(finished)).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('applies the per-minute limit only to group chats', async () => {
+    vi.useFakeTimers();
+    const start = Date.now();
+    const limiter = new RateLimiter({ groupPerMinute: 1 });
+
+    const finished = [
+      track(limiter, '-100', start),
+      track(limiter, '-100', start),
+      track(limiter, '@channel', start),
+      track(limiter, '42', start),
+      track(limiter, '42', start),
+    ];
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(await Promise.all(finished)).toEqual([0, 60_000, 0, 0, 0]);
+  });
+
+  it('holds every sender of a paused chat until retry_after expires', async () => {
+    vi.useFakeTimers();
+    const start = Date.now();
+    const limiter = new RateLimiter();
+
+    limiter.pause('-100', 3000);
+    const finished = [
+      track(limiter, '-100', start),
+      track(limiter, '-100', start),
+      track(limiter, '42', start),
+    ];
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(await Promise.all(finished)).toEqual([3000, 3000, 0]);
+  });
+
+  it('holds every chat while the bot-wide pause lasts', async () => {
+    vi.useFakeTimers();
+    const start = Date.now();
+    const limiter = new RateLimiter();
+
+    limiter.pauseAll(2000);
+    limiter.pause('-100', 3000);
+    const finished = [track(limiter, '-100', start), track(limiter, '42', start)];
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(await Promise.all(finished)).toEqual([3000, 2000]);
+  });
+});
+
+describe('TaskQueue', () => {
+  /**
+   * Занимает очередь задачей, которая завершится только после вызова release.
+   */
+  function block(queue: TaskQueue): () => void {
+    let release = () => {};
+    queue.push(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        }),
+    );
+    return () => release();
+  }
+
+  it('runs higher priority tasks first and keeps FIFO order within a priority', async () => {
+    const queue = new TaskQueue({ overflowStrategy: 'dropOldest' });
+    const order: string[] = [];
+    const release = block(queue);
+
+    queue.push(async () => void order.push('info-1'), 30);
+    queue.push(async () => void order.push('info-2'), 30);
+    queue.push(async () => void order.push('fatal'), 60);
+    queue.push(async () => void order.push('error'), 50);
+    release();
+    await queue.onIdle();
+
+    expect(order).toEqual(['fatal', 'error', 'info-1', 'info-2']);
+  });
+
+  it('evicts the lowest priority entries first on overflow', async () => {
+    const queue = new TaskQueue({ maxSize: 2, overflowStrategy: 'dropOldest' });
+    const order: string[] = [];
+    const release = block(queue);
+
+    const info = queue.push(async () => void order.push('info'), 30);
+    queue.push(async () => void order.push('warn'), 40);
+    queue.push(async () => void order.push('error'), 50);
+    const debug = queue.push(async () => void order.push('debug'), 20);
+    release();
+    await queue.onIdle();
+
+    await expect(info.done).rejects.toThrow('overflowStrategy=dropOldest');
+    await expect(debug.done).rejects.toThrow('overflowStrategy=dropOldest');
+    expect(order).toEqual(['error', 'warn']);
+  });
+
+  it('never drops protected entries, even beyond maxSize', async () => {
+    const queue = new TaskQueue({
+      maxSize: 1,
+      overflowStrategy: 'dropNewest',
+      protectedPriority: 60,
+    });
+    const order: string[] = [];
+    const release = block(queue);
+
+    queue.push(async () => void order.push('fatal-1'), 60);
+    const info = queue.push(async () => void order.push('info'), 30);
+    queue.push(async () => void order.push('fatal-2'), 60);
+    release();
+    await queue.onIdle();
+
+    await expect(info.done).rejects.toThrow('overflowStrategy=dropNewest');
+    expect(order).toEqual(['fatal-1', 'fatal-2']);
+  });
+});
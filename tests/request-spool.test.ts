@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RequestSpool } from '../src/request-spool';
+import type { TelegramMessagePayload, TelegramRequest } from '../src/types';
+
+function createTextRequest(text: string): TelegramRequest {
+  return { method: 'sendMessage', payload: { chat_id: 111, text } };
+}
+
+describe('RequestSpool', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pino-telegram-spool-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns requests in creation order and removes delivered ones', async () => {
+    const spool = new RequestSpool({ dir, maxBytes: 1024 * 1024, maxAgeMs: 60_000 });
+    const firstId = await spool.add(createTextRequest('first'));
+    await spool.add(createTextRequest('second'));
+
+    await spool.remove(firstId as string);
+
+    const entries = await spool.list();
+    expect(entries.map((entry) => (entry.request.payload as TelegramMessagePayload).text)).toEqual([
+      'second',
+    ]);
+  });
+
+  it('drops entries older than maxAgeMs', async () => {
+    let now = 1_000_000;
+    const spool = new RequestSpool({ dir, maxBytes: 1024 * 1024, maxAgeMs: 1000, now: () => now });
+    await spool.add(createTextRequest('stale'));
+    now += 500;
+    await spool.add(createTextRequest('fresh'));
+    now += 600;
+
+    const entries = await spool.list();
+    expect(entries.map((entry) => (entry.request.payload as TelegramMessagePayload).text)).toEqual([
+      'fresh',
+    ]);
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('evicts the oldest entries when maxBytes is exceeded', async () => {
+    const spool = new RequestSpool({ dir, maxBytes: 300, maxAgeMs: 60_000 });
+    for (const text of ['one', 'two', 'three', 'four']) {
+      await spool.add(createTextRequest(text.padEnd(40, '.')));
+    }
+
+    const texts = (await spool.list()).map((entry) =>
+      (entry.request.payload as TelegramMessagePayload).text.replace(/\.+$/, ''),
+    );
+    expect(texts).toEqual(['three', 'four']);
+  });
+
+  it('replays only its own entries while another instance shares the directory', async () => {
+    let now = 1_000_000;
+    const options = { dir, maxBytes: 1024 * 1024, maxAgeMs: 60_000, now: () => now++ };
+    const first = new RequestSpool(options);
+    const second = new RequestSpool(options);
+    const firstId = await first.add(createTextRequest('from first'));
+    const secondId = await second.add(createTextRequest('from second'));
+
+    expect(firstId).not.toBe(secondId);
+    expect((await first.list()).map((entry) => entry.id)).toEqual([firstId]);
+    expect((await second.list()).map((entry) => entry.id)).toEqual([secondId]);
+
+    first.close();
+    const adopted = await second.list();
+    expect(adopted.map((entry) => (entry.request.payload as TelegramMessagePayload).text)).toEqual([
+      'from first',
+      'from second',
+    ]);
+    expect(await readdir(dir)).toHaveLength(2);
+    second.close();
+  });
+
+  it('skips a request that alone exceeds maxBytes', async () => {
+    const spool = new RequestSpool({ dir, maxBytes: 50, maxAgeMs: 60_000 });
+
+    expect(await spool.add(createTextRequest('x'.repeat(100)))).toBeUndefined();
+    expect(await spool.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { buildSourceUrl, extractSourceLocations, trimStackTrace } from '../src/stack-trace';
+
+const STACK = [
+  'Error: boom',
+  '    at handler (/srv/app/src/routes/users.js:10:5)',
+  '    at Layer.handle (/srv/app/node_modules/express/lib/router/layer.js:95:5)',
+  '    at next (/srv/app/node_modules/express/lib/router/route.js:149:13)',
+  '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+  '    at service (file:///srv/app/src/services/users.js:3:1)',
+  '    at main (/srv/app/src/index.js:1:1)',
+].join('\n');
+
+describe('trimStackTrace', () => {
+  it('collapses library frames and rewrites paths relative to the project root', () => {
+    const trimmed = trimStackTrace(STACK, {
+      stackFrameLimit: 0,
+      collapseLibraryFrames: true,
+      stackRoot: '/srv/app/',
+    });
+
+    expect(trimmed).toBe(
+      [
+        'Error: boom',
+        '    at handler (src/routes/users.js:10:5)',
+        '    … 3 library frames',
+        '    at service (src/services/users.js:3:1)',
+        '    at main (src/index.js:1:1)',
+      ].join('\n'),
+    );
+  });
+
+  it('limits frames per stack segment and reports the omitted count', () => {
+    const stack = `${STACK}\ncaused by: Error: inner\n    at a (/x.js:1:1)\n    at b (/x.js:2:1)`;
+
+    const trimmed = trimStackTrace(stack, {
+      stackFrameLimit: 1,
+      collapseLibraryFrames: false,
+    });
+
+    expect(trimmed).toBe(
+      [
+        'Error: boom',
+        '    at handler (/srv/app/src/routes/users.js:10:5)',
+        '    … 5 more frames',
+        'caused by: Error: inner',
+        '    at a (/x.js:1:1)',
+        '    … 1 more frame',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('extractSourceLocations', () => {
+  it('keeps unique project frames under the root and skips libraries', () => {
+    const stack = `${STACK}\n    at handler (/srv/app/src/routes/users.js:10:9)\n    at other (/opt/x.js:1:1)`;
+
+    const locations = extractSourceLocations(stack, {
+      stackFrameLimit: 0,
+      collapseLibraryFrames: true,
+      stackRoot: '/srv/app/',
+    });
+
+    expect(locations).toEqual([
+      { file: 'src/routes/users.js', line: 10, column: 5 },
+      { file: 'src/services/users.js', line: 3, column: 1 },
+      { file: 'src/index.js', line: 1, column: 1 },
+    ]);
+    expect(
+      buildSourceUrl(
+        'https://git.example.com/api/blob/abc123/{file}#L{line}-C{column}',
+        locations[0],
+      ),
+    ).toBe('https://git.example.com/api/blob/abc123/src/routes/users.js#L10-C5');
+  });
+
+  it('links only the frames kept in the trimmed stack', () => {
+    const stack = `${STACK}\ncaused by: Error: inner\n    at query (/srv/app/src/db.js:7:3)`;
+
+    const locations = extractSourceLocations(stack, {
+      stackFrameLimit: 2,
+      collapseLibraryFrames: false,
+      stackRoot: '/srv/app/',
+    });
+
+    expect(locations).toEqual([
+      { file: 'src/routes/users.js', line: 10, column: 5 },
+      { file: 'src/db.js', line: 7, column: 3 },
+    ]);
+  });
+});
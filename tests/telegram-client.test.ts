@@ -1,4 +1,6 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '../src/circuit-breaker';
+import { RateLimiter } from '../src/rate-limiter';
 import { TelegramClient, TelegramDeliveryError } from '../src/telegram-client';
 import { normalizeOptions } from '../src/utils';
 import type {
@@ -85,6 +87,43 @@ describe('TelegramClient', () => {
     expect(init.signal).toBeDefined();
   });
 
+  it('returns the sent message from the Bot API response', async () => {
+    const fetchMock = vi.fn(async () =>
+      createTelegramResponse({
+        ok: true,
+        result: { message_id: 42, date: 1700000000, chat: { id: 111, type: 'private' } },
+      }),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const client = createClient();
+    const result = await client.send({
+      method: 'sendMessage',
+      payload: { chat_id: 111, text: 'Receipt' },
+    });
+
+    expect(result).toEqual({
+      message_id: 42,
+      date: 1700000000,
+      chat: { id: 111, type: 'private' },
+    });
+  });
+
+  it('ignores results that lack the declared message fields', async () => {
+    const fetchMock = vi.fn(async () =>
+      createTelegramResponse({ ok: true, result: { message_id: 42 } }),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const client = createClient();
+    const result = await client.send({
+      method: 'sendMessage',
+      payload: { chat_id: 111, text: 'Receipt' },
+    });
+
+    expect(result).toBeUndefined();
+  });
+
   it('builds multipart body for TelegramInputFile payloads', async () => {
     const fetchMock = vi.fn(async () => createTelegramResponse({ ok: true, result: true }));
     globalThis.fetch = fetchMock as typeof fetch;
@@ -122,6 +161,67 @@ describe('TelegramClient', () => {
     expect(Array.from(new Uint8Array(await file.arrayBuffer()))).toEqual([1, 2, 3, 4]);
   });
 
+  it('uploads binary video with default filename and content type', async () => {
+    const fetchMock = vi.fn(async () => createTelegramResponse({ ok: true, result: true }));
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const client = createClient();
+    await client.send({
+      method: 'sendVideo',
+      payload: { chat_id: 111, video: { data: Uint8Array.from([5, 6]) }, caption: 'Recording' },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(`https://api.telegram.org/bot${TOKEN}/sendVideo`);
+    const form = init.body as FormData;
+    expect(form.get('caption')).toBe('Recording');
+    const file = form.get('video') as Blob & { name?: string };
+    expect(file.name).toBe('video.mp4');
+    expect(file.type).toBe('video/mp4');
+  });
+
+  it('uploads binary media group items as attach:// parts', async () => {
+    const albumMessages = [
+      { message_id: 10, date: 1700000000, chat: { id: 111, type: 'private' } },
+      { message_id: 11, date: 1700000000, chat: { id: 111, type: 'private' } },
+    ];
+    const fetchMock = vi.fn(async () =>
+      createTelegramResponse({ ok: true, result: albumMessages }),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const client = createClient();
+    const result = await client.send({
+      method: 'sendMediaGroup',
+      payload: {
+        chat_id: 111,
+        media: [
+          {
+            type: 'document',
+            media: { data: Uint8Array.from([1, 2]), filename: 'screen.png' },
+            caption: 'Failure',
+          },
+          { type: 'document', media: 'https://example.com/session.har' },
+        ],
+      },
+    });
+
+    expect(result).toEqual(albumMessages);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(`https://api.telegram.org/bot${TOKEN}/sendMediaGroup`);
+    expect(init.body).toBeInstanceOf(FormData);
+
+    const form = init.body as FormData;
+    expect(JSON.parse(form.get('media') as string)).toEqual([
+      { type: 'document', media: 'attach://file0', caption: 'Failure' },
+      { type: 'document', media: 'https://example.com/session.har' },
+    ]);
+    const file = form.get('file0') as Blob & { name?: string };
+    expect(file.name).toBe('screen.png');
+    expect(file.type).toBe('application/octet-stream');
+    expect(Array.from(new Uint8Array(await file.arrayBuffer()))).toEqual([1, 2]);
+  });
+
   it('normalizes serialized Buffer values for binary document uploads', async () => {
     const fetchMock = vi.fn(async () => createTelegramResponse({ ok: true, result: true }));
     globalThis.fetch = fetchMock as typeof fetch;
@@ -293,4 +393,183 @@ describe('TelegramClient', () => {
       isTimeout: true,
     });
   });
+  it('opens the circuit after consecutive failures and fails fast without calling fetch', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const fetchMock = vi.fn(async () =>
+      createTelegramResponse({ ok: false, error_code: 502, description: 'Bad Gateway' }, 502),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ threshold: 2, resetMs: 1000, onStateChange });
+    const client = new TelegramClient(
+      normalizeOptions({ botToken: TOKEN, chatId: 111, retryAttempts: 5, retryInitialDelay: 10 }),
+      breaker,
+    );
+    const request: TelegramRequest = {
+      method: 'sendMessage',
+      payload: { chat_id: 111, text: 'Outage' },
+    };
+
+    const firstError = client.send(request).catch((cause: unknown) => cause);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await firstError).toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await expect(client.send(request)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+    expect(onStateChange.mock.calls[0].slice(0, 2)).toEqual(['open', 'closed']);
+    expect(breaker.getStats()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      rejectedRequests: 2,
+      openCount: 1,
+      nextProbeAt: Date.parse('2024-01-01T00:00:00Z') + 1000 + 10,
+    });
+  });
+
+  it('keeps the circuit closed when Telegram answers with 429', async () => {
+    const fetchMock = vi.fn(async () =>
+      createTelegramResponse({ ok: false, error_code: 429, description: 'Too Many Requests' }, 429),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const breaker = new CircuitBreaker({ threshold: 1, resetMs: 1000 });
+    const client = new TelegramClient(
+      normalizeOptions({ botToken: TOKEN, chatId: 111, retryAttempts: 1 }),
+      breaker,
+    );
+    const request: TelegramRequest = {
+      method: 'sendMessage',
+      payload: { chat_id: 111, text: 'Burst' },
+    };
+
+    await expect(client.send(request)).rejects.toBeInstanceOf(TelegramDeliveryError);
+    await expect(client.send(request)).rejects.toBeInstanceOf(TelegramDeliveryError);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(breaker.getStats()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+      totalFailures: 0,
+    });
+  });
+
+  it('closes the circuit after a successful half-open probe', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    let isOnline = false;
+    const sentMessage = { message_id: 7, date: 1704067201, chat: { id: 111, type: 'private' } };
+    const fetchMock = vi.fn(async () =>
+      isOnline
+        ? createTelegramResponse({ ok: true, result: sentMessage })
+        : createTelegramResponse({ ok: false, error_code: 500 }, 500),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ threshold: 1, resetMs: 1000, onStateChange });
+    const client = new TelegramClient(
+      normalizeOptions({ botToken: TOKEN, chatId: 111, retryAttempts: 1 }),
+      breaker,
+    );
+    const request: TelegramRequest = {
+      method: 'sendMessage',
+      payload: { chat_id: 111, text: 'Probe' },
+    };
+
+    await expect(client.send(request)).rejects.toBeInstanceOf(TelegramDeliveryError);
+    vi.advanceTimersByTime(1000);
+
+    isOnline = true;
+    await expect(client.send(request)).resolves.toEqual(sentMessage);
+
+    expect(onStateChange.mock.calls.map(([state, previous]) => [state, previous])).toEqual([
+      ['open', 'closed'],
+      ['halfOpen', 'open'],
+      ['closed', 'halfOpen'],
+    ]);
+    expect(breaker.getStats()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('keeps the circuit half-open when the probe gets 429 or a permanent 4xx', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(createTelegramResponse({ ok: false, error_code: 500 }, 500))
+      .mockResolvedValueOnce(
+        createTelegramResponse(
+          { ok: false, error_code: 429, description: 'Too Many Requests' },
+          429,
+        ),
+      )
+      .mockResolvedValueOnce(
+        createTelegramResponse(
+          { ok: false, error_code: 400, description: 'Bad Request: chat not found' },
+          400,
+        ),
+      )
+      .mockResolvedValueOnce(createTelegramResponse({ ok: false, error_code: 502 }, 502));
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ threshold: 1, resetMs: 1000, onStateChange });
+    const client = new TelegramClient(
+      normalizeOptions({ botToken: TOKEN, chatId: 111, retryAttempts: 1 }),
+      breaker,
+    );
+    const request: TelegramRequest = {
+      method: 'sendMessage',
+      payload: { chat_id: 111, text: 'Probe' },
+    };
+
+    await expect(client.send(request)).rejects.toBeInstanceOf(TelegramDeliveryError);
+    vi.advanceTimersByTime(1000);
+
+    await expect(client.send(request)).rejects.toMatchObject({ status: 429 });
+    expect(breaker.getStats()).toMatchObject({ state: 'halfOpen', consecutiveFailures: 1 });
+
+    await expect(client.send(request)).rejects.toMatchObject({ status: 400 });
+    expect(breaker.getStats()).toMatchObject({ state: 'halfOpen', consecutiveFailures: 1 });
+
+    await expect(client.send(request)).rejects.toMatchObject({ status: 502 });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(onStateChange.mock.calls.map(([state, previous]) => [state, previous])).toEqual([
+      ['open', 'closed'],
+      ['halfOpen', 'open'],
+      ['open', 'halfOpen'],
+    ]);
+  });
+
+  it('pauses every chat in the shared rate limiter when Telegram returns retry_after', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        createTelegramResponse({ ok: false, error_code: 429, parameters: { retry_after: 2 } }, 429),
+      )
+      .mockResolvedValue(createTelegramResponse({ ok: true, result: true }));
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const rateLimiter = new RateLimiter();
+    const client = new TelegramClient(
+      normalizeOptions({ botToken: TOKEN, chatId: -100, retryAttempts: 1 }),
+      undefined,
+      rateLimiter,
+    );
+
+    await expect(
+      client.send({ method: 'sendMessage', payload: { chat_id: -100, text: 'Flood' } }),
+    ).rejects.toBeInstanceOf(TelegramDeliveryError);
+
+    const start = Date.now();
+    const sameChat = rateLimiter.wait('-100', 0).then(() => Date.now() - start);
+    const otherChat = rateLimiter.wait('222', 0).then(() => Date.now() - start);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await sameChat).toBe(2000);
+    expect(await otherChat).toBe(2000);
+  });
 });
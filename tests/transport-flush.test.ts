@@ -109,4 +109,59 @@ describe('transport write callback', () => {
       expect(isWriteCallbackCalled).toBe(true);
     });
   });
+
+  it('acknowledges the write once queued and waits for all split parts on flush', async () => {
+    const recorder = createRecorder();
+    const controlledSend = createControlledSend(recorder);
+    const stream = telegramTransport({
+      botToken: TOKEN,
+      chatId: 111,
+      send: controlledSend.send,
+      acknowledgeOnEnqueue: true,
+      splitLongMessages: true,
+      maxMessageLength: 18,
+      formatMessage: async () => ({
+        text: '<b>ABCDEFGHIJKLMNOPQRSTUVWXYZ</b>',
+      }),
+    });
+
+    let isWriteCallbackCalled = false;
+    let isFlushed = false;
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Split me' })}\n`, () => {
+      isWriteCallbackCalled = true;
+    });
+
+    await vi.waitFor(() => {
+      expect(isWriteCallbackCalled).toBe(true);
+    });
+    expect(recorder.requests).toHaveLength(0);
+
+    stream.flush(() => {
+      isFlushed = true;
+    });
+
+    await controlledSend.releaseNext();
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(1);
+    });
+    expect(isFlushed).toBe(false);
+
+    await vi.waitFor(() => {
+      expect(controlledSend.getPendingCount()).toBe(1);
+    });
+    await controlledSend.releaseNext();
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(2);
+    });
+    expect(isFlushed).toBe(false);
+
+    await vi.waitFor(() => {
+      expect(controlledSend.getPendingCount()).toBe(1);
+    });
+    await controlledSend.releaseNext();
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(3);
+      expect(isFlushed).toBe(true);
+    });
+  });
 });
@@ -1,14 +1,22 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Writable } from 'node:stream';
 import pino from 'pino';
 import telegramTransport, { TelegramDeliveryError, createMediaFormatter } from '../src';
 import {
   TelegramDocumentPayload,
+  TelegramEditMessageTextPayload,
+  TelegramMediaGroupPayload,
   TelegramMessagePayload,
   TelegramMethod,
   TelegramPhotoPayload,
   TelegramSendPayload,
   TelegramInputFile,
   TelegramTransportOptions,
+  TelegramVideoPayload,
+  TelegramVoicePayload,
 } from '../src/types';
 
 const TOKEN = '123:ABC';
@@ -114,6 +122,12 @@ async function flush(ms = 10) {
   }
 }
 
+function writeLog(stream: Writable, log: Record<string, unknown>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(`${JSON.stringify(log)}\n`, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
 async function flushMicrotasks(iterations = 5): Promise<void> {
   for (let index = 0; index < iterations; index += 1) {
     await Promise.resolve();
@@ -137,6 +151,16 @@ function expectSingleRequest(recorder: Recorder): RecordedRequest {
   return recorder.requests[0];
 }
 
+// Между чатами порядок доставки не задан: у каждого target своя очередь.
+function groupRequestsByChat(
+  requests: RecordedRequest[],
+  chatIds: Array<string | number>,
+): RecordedRequest[] {
+  return chatIds.flatMap((chatId) =>
+    requests.filter((request) => request.payload.chat_id === chatId),
+  );
+}
+
 function stripHtmlTags(value: string): string {
   return value.replace(/<[^>]+>/g, '');
 }
@@ -203,7 +227,11 @@ describe('pino-telegram transport', () => {
     await flush();
     await flush();
 
-    const delivered = recorder.requests.map((request) => ({
+    const delivered = groupRequestsByChat(recorder.requests, [
+      'info-chat',
+      'warn-chat',
+      'error-chat',
+    ]).map((request) => ({
       chatId: (request.payload as TelegramMessagePayload).chat_id,
       text: stripHtmlTags((request.payload as TelegramMessagePayload).text),
     }));
@@ -246,10 +274,12 @@ describe('pino-telegram transport', () => {
     await flush();
     await flush();
 
-    const delivered = recorder.requests.map((request) => ({
-      chatId: (request.payload as TelegramMessagePayload).chat_id,
-      text: stripHtmlTags((request.payload as TelegramMessagePayload).text),
-    }));
+    const delivered = groupRequestsByChat(recorder.requests, ['all-chat', 'warn-chat']).map(
+      (request) => ({
+        chatId: (request.payload as TelegramMessagePayload).chat_id,
+        text: stripHtmlTags((request.payload as TelegramMessagePayload).text),
+      }),
+    );
 
     expect(delivered).toEqual([
       expect.objectContaining({
@@ -287,10 +317,12 @@ describe('pino-telegram transport', () => {
     await flush();
     await flush();
 
-    const delivered = recorder.requests.map((request) => ({
-      chatId: (request.payload as TelegramMessagePayload).chat_id,
-      text: stripHtmlTags((request.payload as TelegramMessagePayload).text),
-    }));
+    const delivered = groupRequestsByChat(recorder.requests, ['warn-chat', 'error-chat']).map(
+      (request) => ({
+        chatId: (request.payload as TelegramMessagePayload).chat_id,
+        text: stripHtmlTags((request.payload as TelegramMessagePayload).text),
+      }),
+    );
 
     expect(delivered).toEqual([
       expect.objectContaining({
@@ -308,6 +340,143 @@ describe('pino-telegram transport', () => {
     ]);
   });
 
+  it('routes logs to targets by include and exclude rules', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        minDelayBetweenMessages: 0,
+        chatId: [
+          {
+            chatId: 'payments-chat',
+            include: [{ field: 'module', equals: ['payments', 'billing'] }],
+          },
+          {
+            chatId: 'http-chat',
+            include: [{ field: 'req.url', matches: '^/api/' }],
+            exclude: [{ field: 'req.url', matches: 'health', flags: 'i' }],
+          },
+          {
+            chatId: 'errors-chat',
+            include: [{ field: 'err.type', exists: true, minLevel: 'error' }],
+          },
+        ],
+        send: recorder.send,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, module: 'billing', msg: 'Invoice paid' })}
+`);
+    stream.write(`${JSON.stringify({ level: 30, req: { url: '/api/Health' }, msg: 'Probe' })}
+`);
+    stream.write(`${JSON.stringify({ level: 30, 'req.url': '/api/users', msg: 'Users' })}
+`);
+    stream.write(`${JSON.stringify({ level: 40, err: { type: 'Error' }, msg: 'Soft fail' })}
+`);
+    stream.write(`${JSON.stringify({ level: 50, err: { type: 'Error' }, msg: 'Hard fail' })}
+`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const delivered = recorder.requests.map((request) => ({
+      chatId: (request.payload as TelegramMessagePayload).chat_id,
+      text: stripHtmlTags((request.payload as TelegramMessagePayload).text),
+    }));
+
+    expect(delivered).toEqual([
+      expect.objectContaining({
+        chatId: 'payments-chat',
+        text: expect.stringContaining('Invoice paid'),
+      }),
+      expect.objectContaining({
+        chatId: 'http-chat',
+        text: expect.stringContaining('Users'),
+      }),
+      expect.objectContaining({
+        chatId: 'errors-chat',
+        text: expect.stringContaining('Hard fail'),
+      }),
+    ]);
+  });
+
+  it('throws on invalid routing rules when failOnInitError enabled', () => {
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, include: [{ field: 'module', matches: '(' }] }],
+        failOnInitError: true,
+      }),
+    ).toThrow('некорректное регулярное выражение');
+
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, exclude: [{ equals: 'payments' }] }],
+        failOnInitError: true,
+      }),
+    ).toThrow('нужно указать field');
+  });
+
+  it('renders the default format natively in MarkdownV2', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport({ parseMode: 'MarkdownV2' }, recorder);
+
+    stream.write(
+      `${JSON.stringify({
+        level: 50,
+        msg: 'Payment failed (order #42)!',
+        time: 1700000000000,
+        context: { note: 'a`b' },
+      })}\n`,
+    );
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const payload = expectSingleRequest(recorder).payload as TelegramMessagePayload;
+    expect(payload.parse_mode).toBe('MarkdownV2');
+    expect(payload.text).toBe(
+      [
+        '❗ ERROR — *Payment failed \\(order \\#42\\)\\!*',
+        '*Time:* 2023\\-11\\-14T22:13:20\\.000Z',
+        '*Context:*',
+        '```',
+        '{',
+        '  "note": "a\\`b"',
+        '}',
+        '```',
+      ].join('\n'),
+    );
+  });
+
+  it('splits long MarkdownV2 messages without breaking escape sequences', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        parseMode: 'MarkdownV2',
+        maxMessageLength: 10,
+        splitLongMessages: true,
+        minDelayBetweenMessages: 0,
+        formatMessage: () => ({ text: '*a\\.b\\.c\\.d\\.e\\.*' }),
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'split' })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const parts = recorder.requests.map(
+      (request) => (request.payload as TelegramMessagePayload).text,
+    );
+    expect(parts).toEqual(['*a\\.b\\.c*', '*\\.d\\.e\\.*']);
+  });
+
   it('renders compact preset with compact context, error, and extras blocks', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport({ formatPreset: 'compact' }, recorder);
@@ -339,6 +508,69 @@ describe('pino-telegram transport', () => {
     expect(text).toContain('<pre>Extras={&quot;foo&quot;:&quot;bar&quot;}</pre>');
   });
 
+  it('renders pino-http records with a request summary line in the http preset', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      { formatPreset: 'http', httpHeaderKeys: ['User-Agent'] },
+      recorder,
+    );
+
+    stream.write(
+      `${JSON.stringify({
+        level: 50,
+        msg: 'request errored',
+        req: {
+          id: 'req-7',
+          method: 'POST',
+          url: '/api/orders?x=1&y=2',
+          remoteAddress: '10.0.0.5',
+          headers: { 'user-agent': 'curl/8.0', authorization: 'Bearer abc', 'x-trace': 't-1' },
+        },
+        res: { statusCode: 502, headers: { 'set-cookie': 'sid=1' } },
+        responseTime: 123.456,
+      })}\n`,
+    );
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const text = (expectSingleRequest(recorder).payload as TelegramMessagePayload).text;
+    const [summary, header] = text.split('\n');
+    expect(summary).toBe(
+      '🔴 <b>POST /api/orders?x=1&amp;y=2 → 502</b> · 123.5 ms · 10.0.0.5 · id=req-7',
+    );
+    expect(header).toContain('ERROR — <b>request errored</b>');
+
+    const extras = text.slice(text.indexOf('<b>Extras:</b>'));
+    expect(extras).toContain('&quot;user-agent&quot;: &quot;curl/8.0&quot;');
+    expect(extras).toContain('&quot;x-trace&quot;: &quot;[REDACTED]&quot;');
+    expect(extras).toContain('&quot;set-cookie&quot;: &quot;[REDACTED]&quot;');
+    expect(extras).not.toContain('Bearer abc');
+    expect(extras).not.toContain('responseTime');
+    expect(extras).not.toContain('remoteAddress');
+  });
+
+  it('falls back to the verbose layout in the http preset for records without req and res', async () => {
+    const httpRecorder = createRecorder();
+    const verboseRecorder = createRecorder();
+    const { stream: httpStream } = createTransport({ formatPreset: 'http' }, httpRecorder);
+    const { stream: verboseStream } = createTransport({ formatPreset: 'verbose' }, verboseRecorder);
+    const logLine = `${JSON.stringify({ level: 30, msg: 'Server listening', time: 1, port: 3000 })}\n`;
+
+    httpStream.write(logLine);
+    verboseStream.write(logLine);
+    httpStream.end();
+    verboseStream.end();
+
+    await flush();
+    await flush();
+
+    expect(expectSingleRequest(httpRecorder).payload).toEqual(
+      expectSingleRequest(verboseRecorder).payload,
+    );
+  });
+
   it('renders verbose preset explicitly with the same output as the default preset', async () => {
     const defaultRecorder = createRecorder();
     const verboseRecorder = createRecorder();
@@ -660,54 +892,78 @@ describe('pino-telegram transport', () => {
     expect(payload.text).not.toContain('skip');
   });
 
-  it('allows overriding default headings', async () => {
+  it('renders error type, code, custom properties, cause chain and aggregated errors', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
-      {
-        headings: {
-          context: 'User Data',
-          time: 'Timestamp',
-        },
-      },
+      { formatPreset: 'compact', errorCauseDepth: 1, redactKeys: ['token'] },
       recorder,
     );
 
     stream.write(
-      `${JSON.stringify({ level: 30, msg: 'Custom headings', context: { foo: 'bar' } })}\n`,
+      `${JSON.stringify({
+        level: 50,
+        msg: 'Sync failed',
+        err: {
+          type: 'AggregateError',
+          message: 'All mirrors failed',
+          code: 'E_SYNC',
+          token: 'secret',
+          stack: 'AggregateError: All mirrors failed',
+          aggregateErrors: [{ type: 'Error', message: 'mirror-a down' }],
+          cause: {
+            type: 'HttpError',
+            message: 'Upstream 502',
+            status: 502,
+            cause: { type: 'Error', message: 'socket hang up' },
+          },
+        },
+      })}\n`,
     );
     stream.end();
 
     await flush();
     await flush();
 
-    const payload = expectSingleRequest(recorder).payload as TelegramMessagePayload;
-    expect(payload.text).toContain('User Data');
-    expect(payload.text).toContain('Timestamp');
-    expect(payload.text).not.toContain('Context');
+    const text = (expectSingleRequest(recorder).payload as TelegramMessagePayload).text;
+    const rendered = stripHtmlTags(text).replace(/&quot;/g, '"');
+    const error = JSON.parse(rendered.slice(rendered.indexOf('Error=') + 'Error='.length));
+
+    expect(error).toEqual({
+      type: 'AggregateError',
+      code: 'E_SYNC',
+      message: 'All mirrors failed',
+      token: '[REDACTED]',
+      stack: 'AggregateError: All mirrors failed',
+      cause: {
+        type: 'HttpError',
+        message: 'Upstream 502',
+        status: 502,
+        cause: 'socket hang up',
+      },
+      errors: [{ type: 'Error', message: 'mirror-a down' }],
+    });
   });
 
-  it('truncates default HTML output without breaking entities, pre blocks, or notice markup', async () => {
+  it('links project stack frames to the configured source URL template', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
       {
-        maxMessageLength: 220,
+        stackRoot: '/srv/app',
+        sourceUrlTemplate: 'https://github.com/acme/api/blob/abc123/{file}#L{line}',
       },
       recorder,
     );
 
     stream.write(
       `${JSON.stringify({
-        level: 30,
-        msg: 'Header <tag>\nSecond line',
-        context: {
-          payload:
-            'line 1\n' +
-            'line 2 with <escaped> content\n' +
-            'line 3 with <escaped> content\n' +
-            'line 4 with <escaped> content\n' +
-            'line 5 with <escaped> content',
+        level: 50,
+        msg: 'Request failed',
+        err: {
+          message: 'boom',
+          stack:
+            'Error: boom\n    at handler (/srv/app/src/routes/users.js:10:5)\n' +
+            '    at next (/srv/app/node_modules/express/lib/router/route.js:149:13)',
         },
-        time: 1700000000000,
       })}\n`,
     );
     stream.end();
@@ -715,88 +971,491 @@ describe('pino-telegram transport', () => {
     await flush();
     await flush();
 
-    const payload = expectSingleRequest(recorder).payload as TelegramMessagePayload;
-    expect(payload.text.length).toBeLessThanOrEqual(220);
-    expect(payload.text).toContain('Header &lt;tag&gt;\nSecond line');
-    expect(payload.text).toContain('<pre>');
-    expect(payload.text).toContain('</pre>');
-    expect(payload.text).toContain('<b>Сообщение обрезано из-за ограничения Telegram</b>');
-    expect(payload.text).not.toContain('&lt...');
-    expect(payload.text).not.toContain('<pr...');
-    expect(payload.text).not.toContain('</b...</pre>');
+    const text = (expectSingleRequest(recorder).payload as TelegramMessagePayload).text;
+    expect(text).toContain(
+      '<b>Source:</b>\n<a href="https://github.com/acme/api/blob/abc123/src/routes/users.js#L10">' +
+        'src/routes/users.js:10</a>',
+    );
+    expect(text).not.toContain('route.js#L');
   });
 
-  it('splits a long text message into ordered HTML-safe parts when splitLongMessages enabled', async () => {
+  it('wraps Context, Error and Extras in expandable blockquotes when enabled', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport({ expandableSections: true }, recorder);
+
+    stream.write(
+      `${JSON.stringify({
+        level: 50,
+        msg: 'Request failed',
+        context: { userId: 1 },
+        err: { message: 'boom' },
+        requestId: 'r-1',
+      })}\n`,
+    );
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const text = (expectSingleRequest(recorder).payload as TelegramMessagePayload).text;
+    expect(text.split('\n')[0]).toContain('ERROR — <b>Request failed</b>');
+    expect(text).toContain(
+      '<blockquote expandable><b>Context:</b>\n{\n  &quot;userId&quot;: 1\n}</blockquote>',
+    );
+    expect(text).toContain('<blockquote expandable><b>Error:</b>\n');
+    expect(text).toContain(
+      '<blockquote expandable><b>Extras:</b>\n{\n  &quot;requestId&quot;: &quot;r-1&quot;\n}</blockquote>',
+    );
+    expect(text.match(/<\/blockquote>/g)).toHaveLength(3);
+    expect(text).not.toContain('<pre>');
+  });
+
+  it('renders expandable sections as a MarkdownV2 expandable quote', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
-      {
-        splitLongMessages: true,
-        maxMessageLength: 18,
-        formatMessage: async () => ({
-          text: '<b>ABCDEFGHIJKLMNOPQRSTUVWXYZ</b>',
-        }),
-      },
+      { expandableSections: true, parseMode: 'MarkdownV2' },
       recorder,
     );
 
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Split me' })}\n`);
+    stream.write(
+      `${JSON.stringify({ level: 30, msg: 'Checkout', context: { cart: 'a-1', total: 9.5 } })}\n`,
+    );
     stream.end();
 
     await flush();
-    await vi.waitFor(() => {
-      expect(recorder.requests).toHaveLength(3);
-    });
+    await flush();
 
-    const parts = recorder.requests.map(
-      (request) => (request.payload as TelegramMessagePayload).text,
+    const text = (expectSingleRequest(recorder).payload as TelegramMessagePayload).text;
+    expect(text).toContain(
+      ['**>*Context:*', '>\\{', '>  "cart": "a\\-1",', '>  "total": 9\\.5', '>\\}||'].join('\n'),
     );
-    expect(parts).toEqual(['<b>ABCDEFGHIJK</b>', '<b>LMNOPQRSTUV</b>', '<b>WXYZ</b>']);
-    expect(parts.every((part) => part.length <= 18)).toBe(true);
-    expect(parts.join('')).not.toContain('...');
-    expect(parts.map(stripHtmlTags).join('')).toBe('ABCDEFGHIJKLMNOPQRSTUVWXYZ');
+    expect(text).not.toContain('```');
   });
 
-  it('supports sendPhoto via кастомный форматтер', async () => {
+  it('allows overriding default headings', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
       {
-        formatMessage: async () => ({
-          text: 'Фото: ошибка',
-          method: 'sendPhoto',
-          extra: {
-            photo: 'https://example.com/image.png',
-          },
-        }),
+        headings: {
+          context: 'User Data',
+          time: 'Timestamp',
+        },
       },
       recorder,
     );
 
-    stream.write(`${JSON.stringify({ level: 50, msg: 'Critical' })}\n`);
+    stream.write(
+      `${JSON.stringify({ level: 30, msg: 'Custom headings', context: { foo: 'bar' } })}\n`,
+    );
     stream.end();
 
     await flush();
     await flush();
 
-    const request = expectSingleRequest(recorder);
-    expect(request.method).toBe('sendPhoto');
-    const payload = request.payload as TelegramPhotoPayload;
-    expect(payload.photo).toBe('https://example.com/image.png');
-    expect(payload.caption).toBe('Фото: ошибка');
-    expect(payload.parse_mode).toBe('HTML');
+    const payload = expectSingleRequest(recorder).payload as TelegramMessagePayload;
+    expect(payload.text).toContain('User Data');
+    expect(payload.text).toContain('Timestamp');
+    expect(payload.text).not.toContain('Context');
   });
 
-  it('использует createMediaFormatter для выбора метода', async () => {
+  it('applies per-target option overrides on top of the shared settings', async () => {
     const recorder = createRecorder();
-    const mediaFormatter = createMediaFormatter();
-
-    const { stream } = createTransport({ formatMessage: mediaFormatter }, recorder);
-
-    stream.write(
-      `${JSON.stringify({
-        level: 30,
-        msg: 'Снимок',
-        messageType: 'photo',
-        mediaUrl: 'https://example.com/photo.jpg',
+    const { stream } = createTransport(
+      {
+        minDelayBetweenMessages: 0,
+        headings: { time: 'Timestamp' },
+        chatId: [
+          {
+            chatId: 'oncall-chat',
+            formatPreset: 'verbose',
+            headings: { context: 'Request' },
+          },
+          {
+            chatId: 'firehose-chat',
+            formatPreset: 'compact',
+            parseMode: 'MarkdownV2',
+            disableNotification: true,
+            includeExtras: false,
+          },
+        ],
+        send: recorder.send,
+      },
+      recorder,
+    );
+
+    stream.write(
+      `${JSON.stringify({ level: 30, msg: 'Routed', context: { id: 1 }, foo: 'bar' })}\n`,
+    );
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const [oncall, firehose] = recorder.requests.map(
+      (request) => request.payload as TelegramMessagePayload,
+    );
+
+    expect(oncall.chat_id).toBe('oncall-chat');
+    expect(oncall.parse_mode).toBe('HTML');
+    expect(oncall.disable_notification).toBe(false);
+    expect(oncall.text).toContain('Timestamp');
+    expect(oncall.text).toContain('Request');
+    expect(oncall.text).toContain('foo');
+
+    expect(firehose.chat_id).toBe('firehose-chat');
+    expect(firehose.parse_mode).toBe('MarkdownV2');
+    expect(firehose.disable_notification).toBe(true);
+    expect(firehose.text).toContain('Routed');
+    expect(firehose.text).not.toContain('foo');
+  });
+
+  it('validates per-target overrides like the shared options', () => {
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, maxMessageLength: 0 }],
+        failOnInitError: true,
+      }),
+    ).toThrow('chatId 111: maxMessageLength должен быть положительным конечным числом');
+
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, includeExtras: 'no' as unknown as boolean }],
+        failOnInitError: true,
+      }),
+    ).toThrow('chatId 111: includeExtras должен быть boolean');
+
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, disableNotification: 1 as unknown as boolean }],
+        failOnInitError: true,
+      }),
+    ).toThrow('chatId 111: disableNotification должен быть boolean');
+
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, parseMode: 'html' as unknown as 'HTML' }],
+        failOnInitError: true,
+      }),
+    ).toThrow('chatId 111: parseMode должен быть одним из: HTML, Markdown, MarkdownV2');
+
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, headings: { context: 42 as unknown as string } }],
+        failOnInitError: true,
+      }),
+    ).toThrow('chatId 111: headings.context должен быть строкой');
+
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 111, headings: { stack: 'Stack' } as Record<string, string> }],
+        failOnInitError: true,
+      }),
+    ).toThrow('chatId 111: headings: неизвестный заголовок stack');
+
+    expect(() =>
+      telegramTransport({
+        botToken: TOKEN,
+        chatId: [{ chatId: 'ops', redactKeys: 'token' as unknown as string[] }],
+        failOnInitError: true,
+      }),
+    ).toThrow('chatId ops: redactKeys должен быть массивом строк');
+  });
+
+  it('throttles noisy records by fingerprint and reports the suppressed count', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      { minDelayBetweenMessages: 0, throttleLimit: 1, send: recorder.send },
+      recorder,
+    );
+
+    for (const id of [1, 2, 3]) {
+      stream.write(`${JSON.stringify({ level: 50, msg: `Order ${id} failed` })}\n`);
+    }
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Checkout completed' })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const texts = recorder.requests.map((request) =>
+      stripHtmlTags((request.payload as TelegramMessagePayload).text),
+    );
+    expect(texts).toHaveLength(2);
+    expect(texts[0]).toContain('Order 1 failed');
+    expect(texts[0]).not.toContain('suppressed');
+    expect(texts[1]).toContain('Checkout completed');
+    expect(texts[1]).toContain('+2 log messages suppressed by sampling/throttling');
+  });
+
+  it('silences quiet hours and releases held records as a digest afterwards', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T23:00:00Z'));
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        minDelayBetweenMessages: 0,
+        chatId: [
+          {
+            chatId: 'night-chat',
+            quietHours: { hours: '22:00-08:00', notifyLevel: 'fatal' },
+          },
+          {
+            chatId: 'digest-chat',
+            quietHours: { hours: '22:00-08:00', notifyLevel: 'error', digest: true },
+          },
+        ],
+        send: recorder.send,
+      },
+      recorder,
+    );
+    const write = (log: Record<string, unknown>) =>
+      new Promise<void>((resolve) => {
+        stream.write(`${JSON.stringify(log)}\n`, () => resolve());
+      });
+
+    try {
+      await write({ level: 30, msg: 'Nightly job' });
+      await write({ level: 50, msg: 'Night failure' });
+      await flushLogger(stream);
+      vi.setSystemTime(new Date('2024-03-02T08:30:00Z'));
+      await write({ level: 30, msg: 'Morning' });
+      await flushLogger(stream);
+
+      const delivered = recorder.requests.map((request) => {
+        const payload = request.payload as TelegramMessagePayload;
+        return {
+          chatId: payload.chat_id,
+          silent: payload.disable_notification,
+          text: stripHtmlTags(payload.text),
+        };
+      });
+
+      expect(delivered.filter((item) => item.chatId === 'night-chat')).toEqual([
+        { chatId: 'night-chat', silent: true, text: expect.stringContaining('Nightly job') },
+        { chatId: 'night-chat', silent: true, text: expect.stringContaining('Night failure') },
+        { chatId: 'night-chat', silent: false, text: expect.stringContaining('Morning') },
+      ]);
+      const digestChat = delivered.filter((item) => item.chatId === 'digest-chat');
+      expect(digestChat).toEqual([
+        { chatId: 'digest-chat', silent: false, text: expect.stringContaining('Night failure') },
+        {
+          chatId: 'digest-chat',
+          silent: false,
+          text: expect.stringContaining('1 log message held during quiet hours'),
+        },
+        { chatId: 'digest-chat', silent: false, text: expect.stringContaining('Morning') },
+      ]);
+      expect(digestChat[1].text).toContain('Nightly job');
+    } finally {
+      stream.end();
+      vi.useRealTimers();
+    }
+  });
+
+  it('suppresses repeats of a record already held for the digest', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T23:00:00Z'));
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        minDelayBetweenMessages: 0,
+        dedupWindowMs: 60_000,
+        chatId: [
+          {
+            chatId: 'digest-chat',
+            quietHours: { hours: '22:00-08:00', notifyLevel: 'error', digest: true },
+          },
+        ],
+        send: recorder.send,
+      },
+      recorder,
+    );
+
+    try {
+      await writeLog(stream, { level: 30, msg: 'Nightly job' });
+      await writeLog(stream, { level: 30, msg: 'Nightly job' });
+      await flushLogger(stream);
+      expect(recorder.requests).toHaveLength(0);
+
+      vi.setSystemTime(new Date('2024-03-02T08:30:00Z'));
+      stream.end();
+      await flush();
+      await flush();
+
+      const [digest] = recorder.requests.map((request) =>
+        stripHtmlTags((request.payload as TelegramMessagePayload).text),
+      );
+      expect(recorder.requests).toHaveLength(1);
+      expect(digest).toContain('1 log message held during quiet hours');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps the digest heading within maxMessageLength and merges overflow drops into it', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T23:00:00Z'));
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        minDelayBetweenMessages: 0,
+        maxMessageLength: 300,
+        maxQueueSize: 1,
+        formatMessage: ({ log }) => ({ text: String(log.msg) }),
+        chatId: [
+          {
+            chatId: 'digest-chat',
+            quietHours: { hours: '22:00-08:00', notifyLevel: 'error', digest: true },
+          },
+        ],
+        send: recorder.send,
+      },
+      recorder,
+    );
+
+    try {
+      await writeLog(stream, { level: 30, msg: 'Dropped at night' });
+      await writeLog(stream, { level: 30, msg: 'A'.repeat(250) });
+      await flushLogger(stream);
+      expect(recorder.requests).toHaveLength(0);
+
+      vi.setSystemTime(new Date('2024-03-02T08:30:00Z'));
+      stream.end();
+      await flush();
+      await flush();
+
+      const texts = recorder.requests.map((request) =>
+        stripHtmlTags((request.payload as TelegramMessagePayload).text),
+      );
+      expect(texts).toHaveLength(2);
+      expect(texts[0]).toContain('1 log message held during quiet hours');
+      expect(texts[0]).toMatch(/⚠️ 1 log message dropped \(1 INFO\)/);
+      expect(texts[1]).toBe('A'.repeat(250));
+      for (const request of recorder.requests) {
+        expect((request.payload as TelegramMessagePayload).text.length).toBeLessThanOrEqual(300);
+      }
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('truncates default HTML output without breaking entities, pre blocks, or notice markup', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        maxMessageLength: 220,
+      },
+      recorder,
+    );
+
+    stream.write(
+      `${JSON.stringify({
+        level: 30,
+        msg: 'Header <tag>\nSecond line',
+        context: {
+          payload:
+            'line 1\n' +
+            'line 2 with <escaped> content\n' +
+            'line 3 with <escaped> content\n' +
+            'line 4 with <escaped> content\n' +
+            'line 5 with <escaped> content',
+        },
+        time: 1700000000000,
+      })}\n`,
+    );
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const payload = expectSingleRequest(recorder).payload as TelegramMessagePayload;
+    expect(payload.text.length).toBeLessThanOrEqual(220);
+    expect(payload.text).toContain('Header &lt;tag&gt;\nSecond line');
+    expect(payload.text).toContain('<pre>');
+    expect(payload.text).toContain('</pre>');
+    expect(payload.text).toContain('<b>Сообщение обрезано из-за ограничения Telegram</b>');
+    expect(payload.text).not.toContain('&lt...');
+    expect(payload.text).not.toContain('<pr...');
+    expect(payload.text).not.toContain('</b...</pre>');
+  });
+
+  it('splits a long text message into ordered HTML-safe parts when splitLongMessages enabled', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        splitLongMessages: true,
+        maxMessageLength: 18,
+        formatMessage: async () => ({
+          text: '<b>ABCDEFGHIJKLMNOPQRSTUVWXYZ</b>',
+        }),
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Split me' })}\n`);
+    stream.end();
+
+    await flush();
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(3);
+    });
+
+    const parts = recorder.requests.map(
+      (request) => (request.payload as TelegramMessagePayload).text,
+    );
+    expect(parts).toEqual(['<b>ABCDEFGHIJK</b>', '<b>LMNOPQRSTUV</b>', '<b>WXYZ</b>']);
+    expect(parts.every((part) => part.length <= 18)).toBe(true);
+    expect(parts.join('')).not.toContain('...');
+    expect(parts.map(stripHtmlTags).join('')).toBe('ABCDEFGHIJKLMNOPQRSTUVWXYZ');
+  });
+
+  it('supports sendPhoto via кастомный форматтер', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        formatMessage: async () => ({
+          text: 'Фото: ошибка',
+          method: 'sendPhoto',
+          extra: {
+            photo: 'https://example.com/image.png',
+          },
+        }),
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Critical' })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    const request = expectSingleRequest(recorder);
+    expect(request.method).toBe('sendPhoto');
+    const payload = request.payload as TelegramPhotoPayload;
+    expect(payload.photo).toBe('https://example.com/image.png');
+    expect(payload.caption).toBe('Фото: ошибка');
+    expect(payload.parse_mode).toBe('HTML');
+  });
+
+  it('использует createMediaFormatter для выбора метода', async () => {
+    const recorder = createRecorder();
+    const mediaFormatter = createMediaFormatter();
+
+    const { stream } = createTransport({ formatMessage: mediaFormatter }, recorder);
+
+    stream.write(
+      `${JSON.stringify({
+        level: 30,
+        msg: 'Снимок',
+        messageType: 'photo',
+        mediaUrl: 'https://example.com/photo.jpg',
       })}\n`,
     );
     stream.write(
@@ -905,6 +1564,142 @@ describe('pino-telegram transport', () => {
     expect(payload.caption).toHaveLength(10);
     expect(recorder.requests[0].method).toBe('sendPhoto');
   });
+  it('отправляет альбом sendMediaGroup через createMediaFormatter', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      { formatMessage: createMediaFormatter(), minDelayBetweenMessages: 0 },
+      recorder,
+    );
+
+    stream.write(
+      `${JSON.stringify({
+        level: 50,
+        msg: 'Checkout failed',
+        messageType: 'mediaGroup',
+        mediaItems: [
+          { messageType: 'photo', mediaUrl: 'https://example.com/screen.png' },
+          { messageType: 'photo', mediaUrl: 'https://example.com/second.png' },
+        ],
+      })}\n`,
+    );
+    await flushLogger(stream);
+
+    const request = expectSingleRequest(recorder);
+    expect(request.method).toBe('sendMediaGroup');
+    const payload = request.payload as TelegramMediaGroupPayload;
+    expect(payload.chat_id).toBe(111);
+    expect(payload).not.toHaveProperty('parse_mode');
+    expect(payload.media).toHaveLength(2);
+    expect(payload.media[0]).toMatchObject({
+      type: 'photo',
+      media: 'https://example.com/screen.png',
+      parse_mode: 'HTML',
+    });
+    expect(payload.media[0].caption).toContain('Checkout failed');
+    expect(payload.media[1]).toEqual({ type: 'photo', media: 'https://example.com/second.png' });
+  });
+
+  it('отправляет смешанный альбом фото и документов как документы', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      { formatMessage: createMediaFormatter(), minDelayBetweenMessages: 0 },
+      recorder,
+    );
+
+    stream.write(
+      `${JSON.stringify({
+        level: 50,
+        msg: 'Screenshot and HAR',
+        messageType: 'mediaGroup',
+        mediaItems: [
+          { messageType: 'photo', mediaBuffer: Buffer.from([1, 2, 3]) },
+          {
+            messageType: 'document',
+            mediaBuffer: Buffer.from('{"log":{}}'),
+            mediaFilename: 'session.har',
+            mediaContentType: 'application/json',
+          },
+        ],
+      })}\n`,
+    );
+    await flushLogger(stream);
+
+    const payload = expectSingleRequest(recorder).payload as TelegramMediaGroupPayload;
+    expect(payload.media.map((item) => item.type)).toEqual(['document', 'document']);
+    expect((payload.media[0].media as TelegramInputFile).filename).toBe('photo.jpg');
+    expect((payload.media[1].media as TelegramInputFile).filename).toBe('session.har');
+  });
+
+  it('передаёт ошибку в onDeliveryError для альбома из одиннадцати элементов', async () => {
+    const recorder = createRecorder();
+    const onDeliveryError = vi.fn();
+    const { stream } = createTransport(
+      {
+        onDeliveryError,
+        formatMessage: () => ({
+          text: 'Too many',
+          method: 'sendMediaGroup',
+          extra: {
+            media: Array.from({ length: 11 }, (_, index) => ({
+              type: 'photo',
+              media: `https://example.com/${index}.png`,
+            })),
+          },
+        }),
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Album' })}\n`);
+    await flushLogger(stream);
+
+    expect(recorder.requests).toHaveLength(0);
+    expect(onDeliveryError).toHaveBeenCalledTimes(1);
+    expect((onDeliveryError.mock.calls[0][0] as Error).message).toContain('от 2 до 10');
+  });
+
+  it('выбирает sendVideo, sendAudio, sendVoice и sendAnimation по messageType', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      { formatMessage: createMediaFormatter(), minDelayBetweenMessages: 0 },
+      recorder,
+    );
+
+    for (const messageType of ['video', 'audio', 'animation']) {
+      stream.write(
+        `${JSON.stringify({
+          level: 30,
+          msg: `QA ${messageType}`,
+          messageType,
+          mediaUrl: `https://example.com/capture.${messageType}`,
+        })}\n`,
+      );
+    }
+    stream.write(
+      `${JSON.stringify({
+        level: 30,
+        msg: 'QA voice',
+        messageType: 'voice',
+        mediaBuffer: Buffer.from([9, 8, 7]),
+      })}\n`,
+    );
+    await flushLogger(stream);
+
+    expect(recorder.requests.map((request) => request.method)).toEqual([
+      'sendVideo',
+      'sendAudio',
+      'sendAnimation',
+      'sendVoice',
+    ]);
+    expect((recorder.requests[0].payload as TelegramVideoPayload).video).toBe(
+      'https://example.com/capture.video',
+    );
+    expect((recorder.requests[0].payload as TelegramVideoPayload).caption).toContain('QA video');
+    const voice = (recorder.requests[3].payload as TelegramVoicePayload).voice as TelegramInputFile;
+    expect(voice.filename).toBe('voice.ogg');
+    expect(voice.contentType).toBe('audio/ogg');
+  });
+
   it('supports sendDocument и переопределение caption', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
@@ -934,6 +1729,52 @@ describe('pino-telegram transport', () => {
     expect(payload.caption).toBe('Отчёт по инциденту');
   });
 
+  it('reports delivery receipts through onDelivered', async () => {
+    const onDelivered = vi.fn();
+    const send = vi.fn(async () => ({
+      message_id: 7,
+      date: 1700000000,
+      chat: { id: 111, type: 'supergroup' },
+    }));
+    const { stream } = createTransport({ send, onDelivered });
+
+    const log = { level: 30, msg: 'Receipt', time: 1700000000000 };
+    stream.write(`${JSON.stringify(log)}\n`);
+    await flushLogger(stream);
+
+    expect(onDelivered).toHaveBeenCalledTimes(1);
+    const [result, request, deliveredLog] = onDelivered.mock.calls[0];
+    expect(result).toEqual({
+      message_id: 7,
+      date: 1700000000,
+      chat: { id: 111, type: 'supergroup' },
+    });
+    expect(request.method).toBe('sendMessage');
+    expect(request.payload.chat_id).toBe(111);
+    expect(deliveredLog).toEqual(log);
+  });
+
+  it('calls onDelivered for every record of a batched message', async () => {
+    const onDelivered = vi.fn();
+    const { stream, recorder } = createTransport({
+      onDelivered,
+      batchWindowMs: 1000,
+      minDelayBetweenMessages: 0,
+    });
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Batch receipt 1' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Batch receipt 2' })}\n`);
+    await flushLogger(stream);
+
+    expect(recorder.requests).toHaveLength(1);
+    expect(onDelivered).toHaveBeenCalledTimes(2);
+    expect(onDelivered.mock.calls.map((call) => call[2].msg)).toEqual([
+      'Batch receipt 1',
+      'Batch receipt 2',
+    ]);
+    expect(onDelivered.mock.calls[0][0]).toBeUndefined();
+  });
+
   it('передаёт метод в onDeliveryError при ошибке форматтера', async () => {
     const onDeliveryError = vi.fn();
     const { stream } = createTransport({
@@ -985,15 +1826,133 @@ describe('pino-telegram transport', () => {
     stream.write(`${JSON.stringify({ level: 50, msg: 'Failing photo' })}\n`);
     stream.end();
 
-    await flush(100);
-    await vi.waitFor(() => {
-      expect(onDeliveryError).toHaveBeenCalledTimes(1);
+    await flush(100);
+    await vi.waitFor(() => {
+      expect(onDeliveryError).toHaveBeenCalledTimes(1);
+    });
+    expect(recorder.send).toHaveBeenCalledTimes(1);
+    const [, payload, method] = onDeliveryError.mock.calls[0];
+    expect(method).toBe('sendPhoto');
+    expect((payload as TelegramPhotoPayload).photo).toBe('https://example.com/fail.png');
+  });
+  it('переотправляет сообщение без разметки при ошибке "can\'t parse entities"', async () => {
+    const recorder = createRecorder();
+    const originalSend = recorder.send;
+    const onDeliveryError = vi.fn();
+    const onDelivered = vi.fn();
+
+    recorder.send = vi.fn(async (payload, method) => {
+      await originalSend(payload, method);
+      if ('parse_mode' in payload && payload.parse_mode) {
+        throw new TelegramDeliveryError(
+          "Ошибка Telegram API (sendMessage): Bad Request: can't parse entities: Unclosed tag",
+          {
+            ok: false,
+            error_code: 400,
+            description: "Bad Request: can't parse entities: Unclosed tag",
+          },
+          400,
+        );
+      }
+    });
+
+    const { stream } = createTransport(
+      {
+        formatMessage: () => ({ text: '<b>Broken &lt;markup&gt; <i>here</b>' }),
+        onDeliveryError,
+        onDelivered,
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Broken' })}\n`);
+    await flushLogger(stream);
+
+    expect(recorder.send).toHaveBeenCalledTimes(2);
+    const fallbackPayload = recorder.requests[1].payload as TelegramMessagePayload;
+    expect(fallbackPayload.parse_mode).toBeUndefined();
+    expect(fallbackPayload.text).toBe('Broken <markup> here');
+
+    expect(onDeliveryError).toHaveBeenCalledTimes(1);
+    const [error, payload, method] = onDeliveryError.mock.calls[0];
+    expect(error).toBeInstanceOf(TelegramDeliveryError);
+    expect((error as TelegramDeliveryError).code).toBe('PARSE_ENTITIES_FALLBACK');
+    expect((payload as TelegramMessagePayload).parse_mode).toBe('HTML');
+    expect(method).toBe('sendMessage');
+
+    expect(onDelivered).toHaveBeenCalledTimes(1);
+    const [, deliveredRequest] = onDelivered.mock.calls[0] as [
+      unknown,
+      { payload: TelegramMessagePayload },
+    ];
+    expect(deliveredRequest.payload.parse_mode).toBeUndefined();
+  });
+
+  it('снимает разметку с подписи медиа при ошибке "can\'t parse entities"', async () => {
+    const recorder = createRecorder();
+    const originalSend = recorder.send;
+
+    recorder.send = vi.fn(async (payload, method) => {
+      await originalSend(payload, method);
+      if ('parse_mode' in payload && payload.parse_mode) {
+        throw new TelegramDeliveryError(
+          "Ошибка Telegram API (sendVideo): Bad Request: can't parse entities: Unclosed tag",
+          {
+            ok: false,
+            error_code: 400,
+            description: "Bad Request: can't parse entities: Unclosed tag",
+          },
+          400,
+        );
+      }
+    });
+
+    const { stream } = createTransport(
+      {
+        formatMessage: () => ({
+          text: '<b>Broken <i>caption</b>',
+          method: 'sendVideo',
+          extra: { video: 'https://example.com/clip.mp4' },
+        }),
+        onDeliveryError: vi.fn(),
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Broken' })}\n`);
+    await flushLogger(stream);
+
+    expect(recorder.send).toHaveBeenCalledTimes(2);
+    expect(recorder.requests[1].method).toBe('sendVideo');
+    const fallbackPayload = recorder.requests[1].payload as TelegramVideoPayload;
+    expect(fallbackPayload.parse_mode).toBeUndefined();
+    expect(fallbackPayload.caption).toBe('Broken caption');
+    expect(fallbackPayload.video).toBe('https://example.com/clip.mp4');
+  });
+
+  it('не повторяет запрос без parse_mode при других ошибках 400', async () => {
+    const recorder = createRecorder();
+    const onDeliveryError = vi.fn();
+    recorder.send = vi.fn(async () => {
+      throw new TelegramDeliveryError(
+        'Bad Request: chat not found',
+        { ok: false, error_code: 400, description: 'Bad Request: chat not found' },
+        400,
+      );
     });
+
+    const { stream } = createTransport({ onDeliveryError, minDelayBetweenMessages: 0 }, recorder);
+
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Lost chat' })}\n`);
+    await flushLogger(stream);
+
     expect(recorder.send).toHaveBeenCalledTimes(1);
-    const [, payload, method] = onDeliveryError.mock.calls[0];
-    expect(method).toBe('sendPhoto');
-    expect((payload as TelegramPhotoPayload).photo).toBe('https://example.com/fail.png');
+    expect(onDeliveryError).toHaveBeenCalledTimes(1);
+    expect((onDeliveryError.mock.calls[0][0] as TelegramDeliveryError).code).toBeUndefined();
   });
+
   it('broadcasts message to multiple chats and threads', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
@@ -1020,6 +1979,42 @@ describe('pino-telegram transport', () => {
     expect(secondPayload.message_thread_id).toBe(77);
   });
 
+  it('delivers to each chat independently while another chat is stalled', async () => {
+    const recorder = createRecorder();
+    const stalledChat = createControlledSend(recorder);
+    const send = vi.fn(async (payload: TelegramSendPayload, method: TelegramMethod) =>
+      payload.chat_id === 111 ? stalledChat.send(payload, method) : recorder.send(payload, method),
+    );
+    const { stream } = createTransport(
+      { chatId: [111, 222], send, minDelayBetweenMessages: 0, acknowledgeOnEnqueue: true },
+      recorder,
+    );
+
+    await writeLog(stream, { level: 30, msg: 'First' });
+    await writeLog(stream, { level: 30, msg: 'Second' });
+
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(2);
+    });
+    expect(recorder.requests.map((request) => request.payload.chat_id)).toEqual([222, 222]);
+    expect(stalledChat.send).toHaveBeenCalledTimes(1);
+
+    const flushed = flushLogger(stream);
+    await stalledChat.releaseNext();
+    await vi.waitFor(() => {
+      expect(stalledChat.send).toHaveBeenCalledTimes(2);
+    });
+    await stalledChat.releaseNext();
+    await flushed;
+
+    const stalledTexts = recorder.requests
+      .filter((request) => request.payload.chat_id === 111)
+      .map((request) => (request.payload as TelegramMessagePayload).text);
+    expect(stalledTexts).toHaveLength(2);
+    expect(stalledTexts[0]).toContain('First');
+    expect(stalledTexts[1]).toContain('Second');
+  });
+
   it('accepts threadId passed as a string (options and per-target)', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
@@ -1137,129 +2132,430 @@ describe('pino-telegram transport', () => {
     expect(payload.caption?.length).toBeLessThanOrEqual(25);
   });
 
-  it('suppresses identical text logs inside dedup window even when only time differs', async () => {
+  it('suppresses identical text logs inside dedup window even when only time differs', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        dedupWindowMs: 1000,
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Dedup event', time: 1700000000000 })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Dedup event', time: 1700000001000 })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    expect(recorder.requests).toHaveLength(1);
+    const payload = recorder.requests[0].payload as TelegramMessagePayload;
+    expect(payload.text).toContain('Dedup event');
+  });
+
+  it('groups errors by fingerprint regardless of reqId, pid and ids in the message', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        dedupWindowMs: 1000,
+        dedupStrategy: 'fingerprint',
+        dedupStackFrames: 1,
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+    const failure = (reqId: string, orderId: number, frame: string) => ({
+      level: 50,
+      msg: 'Checkout failed',
+      reqId,
+      pid: orderId,
+      err: {
+        type: 'PaymentError',
+        message: `order ${orderId} declined`,
+        stack: `PaymentError: order ${orderId} declined\n    at ${frame}\n    at run (/app/worker.js:${orderId}:1)`,
+      },
+    });
+
+    stream.write(`${JSON.stringify(failure('a', 1, 'charge (/app/pay.js:10:5)'))}\n`);
+    stream.write(`${JSON.stringify(failure('b', 2, 'charge (/app/pay.js:12:7)'))}\n`);
+    stream.write(`${JSON.stringify(failure('c', 3, 'refund (/app/pay.js:40:3)'))}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    expect(recorder.requests).toHaveLength(2);
+    expect((recorder.requests[0].payload as TelegramMessagePayload).text).toContain('order 1');
+    expect((recorder.requests[1].payload as TelegramMessagePayload).text).toContain('order 3');
+  });
+
+  it('builds the dedup key from configured dedupKeys only', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        dedupWindowMs: 1000,
+        dedupKeys: ['msg', 'req.route'],
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Slow', req: { route: '/a', id: 1 } })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Slow', req: { route: '/a', id: 2 } })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Slow', req: { route: '/b', id: 3 } })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    expect(recorder.requests).toHaveLength(2);
+    expect(stripHtmlTags((recorder.requests[1].payload as TelegramMessagePayload).text)).toContain(
+      '/b',
+    );
+  });
+
+  it('delivers identical text logs again after dedup window expires', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        dedupWindowMs: 1000,
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Window expired', time: 1700000000000 })}\n`);
+
+    await flush();
+    await flush();
+
+    await vi.advanceTimersByTimeAsync(1001);
+    await vi.runOnlyPendingTimersAsync();
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Window expired', time: 1700000001000 })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    expect(recorder.requests).toHaveLength(2);
+    expect((recorder.requests[0].payload as TelegramMessagePayload).text).toContain(
+      'Window expired',
+    );
+    expect((recorder.requests[1].payload as TelegramMessagePayload).text).toContain(
+      'Window expired',
+    );
+  });
+
+  it('keeps dedup state isolated per target', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        dedupWindowMs: 1000,
+        minDelayBetweenMessages: 0,
+        chatId: ['chat_A', 'chat_B'],
+        send: recorder.send,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Target isolated', time: 1700000000000 })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    expect(recorder.requests).toHaveLength(2);
+    expect((recorder.requests[0].payload as TelegramMessagePayload).chat_id).toBe('chat_A');
+    expect((recorder.requests[1].payload as TelegramMessagePayload).chat_id).toBe('chat_B');
+  });
+
+  it('suppresses duplicate text logs after successful retry delivery', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+
+    const recorder = createRecorder();
+    const originalSend = recorder.send;
+    let shouldFailOnce = true;
+    recorder.send = vi.fn(async (payload, method) => {
+      if (shouldFailOnce) {
+        shouldFailOnce = false;
+        throw new TelegramDeliveryError('Retry once', { ok: false, error_code: 500 }, 500);
+      }
+      await originalSend(payload, method);
+    });
+
+    const { stream } = createTransport(
+      {
+        dedupWindowMs: 1000,
+        minDelayBetweenMessages: 0,
+        retryAttempts: 2,
+        retryInitialDelay: 200,
+        retryBackoffFactor: 1,
+        retryMaxDelay: 200,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Retry dedup', time: 1700000000000 })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Retry dedup', time: 1700000001000 })}\n`);
+    stream.end();
+
+    await flush();
+    await flush();
+
+    await vi.advanceTimersByTimeAsync(200);
+    await vi.runOnlyPendingTimersAsync();
+    await flush();
+    await flush();
+
+    expect(recorder.send).toHaveBeenCalledTimes(2);
+    expect(recorder.requests).toHaveLength(1);
+    expect((recorder.requests[0].payload as TelegramMessagePayload).text).toContain('Retry dedup');
+  });
+
+  it('edits the first delivered message with an occurrence counter when dedupMode=edit', async () => {
+    const recorder = createRecorder();
+    const originalSend = recorder.send;
+    let nextMessageId = 100;
+    const send = vi.fn(async (payload: TelegramSendPayload, method: TelegramMethod) => {
+      await originalSend(payload, method);
+      if (method === 'sendMessage') {
+        nextMessageId += 1;
+        return { message_id: nextMessageId, date: 1700000000, chat: { id: 111, type: 'group' } };
+      }
+      return undefined;
+    });
+
+    const { stream } = createTransport(
+      {
+        send,
+        dedupWindowMs: 60_000,
+        dedupMode: 'edit',
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Repeated', time: 1700000000000 })}\n`);
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Repeated', time: 1700000001000 })}\n`);
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Repeated', time: 1700000002000 })}\n`);
+    await flushLogger(stream);
+
+    expect(recorder.requests.map((request) => request.method)).toEqual([
+      'sendMessage',
+      'editMessageText',
+      'editMessageText',
+    ]);
+
+    const original = recorder.requests[0].payload as TelegramMessagePayload;
+    const lastEdit = recorder.requests[2].payload as TelegramEditMessageTextPayload;
+    expect(lastEdit.chat_id).toBe(111);
+    expect(lastEdit.message_id).toBe(101);
+    expect(lastEdit.parse_mode).toBe('HTML');
+    expect(lastEdit.text.startsWith(original.text)).toBe(true);
+    expect(lastEdit.text).toContain('<i>×3, last seen at 2023-11-14T22:13:22.000Z</i>');
+    expect((recorder.requests[1].payload as TelegramEditMessageTextPayload).text).toContain('×2');
+  });
+
+  it('keeps suppressing repeats silently when dedupMode=edit but send returns no message', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        dedupWindowMs: 60_000,
+        dedupMode: 'edit',
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 50, msg: 'No receipt' })}\n`);
+    stream.write(`${JSON.stringify({ level: 50, msg: 'No receipt' })}\n`);
+    await flushLogger(stream);
+
+    expect(recorder.requests.map((request) => request.method)).toEqual(['sendMessage']);
+  });
+
+  it('combines text logs inside batchWindowMs into a single message per target', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        batchWindowMs: 1000,
+        minDelayBetweenMessages: 0,
+        chatId: ['chat_A', 'chat_B'],
+        send: recorder.send,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 40, msg: 'Batched first' })}\n`);
+    stream.write(`${JSON.stringify({ level: 40, msg: 'Batched second' })}\n`);
+    stream.write(`${JSON.stringify({ level: 40, msg: 'Batched third' })}\n`);
+    await flushLogger(stream);
+
+    expect(recorder.requests).toHaveLength(2);
+    expect((recorder.requests[0].payload as TelegramMessagePayload).chat_id).toBe('chat_A');
+    expect((recorder.requests[1].payload as TelegramMessagePayload).chat_id).toBe('chat_B');
+    const text = (recorder.requests[0].payload as TelegramMessagePayload).text;
+    expect(text.indexOf('Batched first')).toBeLessThan(text.indexOf('Batched second'));
+    expect(text.indexOf('Batched second')).toBeLessThan(text.indexOf('Batched third'));
+  });
+
+  it('sends a batch when batchWindowMs expires', async () => {
+    vi.useFakeTimers();
+
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        batchWindowMs: 500,
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Window one' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Window two' })}\n`);
+    await flushMicrotasks(20);
+
+    expect(recorder.requests).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await vi.runOnlyPendingTimersAsync();
+
+    const payload = expectSingleRequest(recorder).payload as TelegramMessagePayload;
+    expect(payload.text).toContain('Window one');
+    expect(payload.text).toContain('Window two');
+  });
+
+  it('sends a batch as soon as batchMaxSize is reached', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
       {
-        dedupWindowMs: 1000,
+        batchWindowMs: 60_000,
+        batchMaxSize: 2,
         minDelayBetweenMessages: 0,
       },
       recorder,
     );
 
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Dedup event', time: 1700000000000 })}\n`);
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Dedup event', time: 1700000001000 })}\n`);
-    stream.end();
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Size one' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Size two' })}\n`);
 
-    await flush();
-    await flush();
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(1);
+    });
 
-    expect(recorder.requests).toHaveLength(1);
-    const payload = recorder.requests[0].payload as TelegramMessagePayload;
-    expect(payload.text).toContain('Dedup event');
-  });
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Size three' })}\n`);
+    stream.end();
 
-  it('delivers identical text logs again after dedup window expires', async () => {
-    vi.useFakeTimers();
-    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(2);
+    });
+    expect((recorder.requests[0].payload as TelegramMessagePayload).text).toContain('Size two');
+    expect((recorder.requests[1].payload as TelegramMessagePayload).text).toContain('Size three');
+  });
 
+  it('packs batched records into several messages within maxMessageLength', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
       {
-        dedupWindowMs: 1000,
+        batchWindowMs: 1000,
         minDelayBetweenMessages: 0,
+        maxMessageLength: 25,
+        formatMessage: ({ log }) => ({ text: String(log.msg) }),
       },
       recorder,
     );
 
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Window expired', time: 1700000000000 })}\n`);
-
-    await flush();
-    await flush();
-
-    await vi.advanceTimersByTimeAsync(1001);
-    await vi.runOnlyPendingTimersAsync();
-
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Window expired', time: 1700000001000 })}\n`);
-    stream.end();
-
-    await flush();
-    await flush();
+    stream.write(`${JSON.stringify({ level: 30, msg: 'alpha-alpha' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'beta-beta' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'gamma-gamma' })}\n`);
+    await flushLogger(stream);
 
-    expect(recorder.requests).toHaveLength(2);
-    expect((recorder.requests[0].payload as TelegramMessagePayload).text).toContain(
-      'Window expired',
-    );
-    expect((recorder.requests[1].payload as TelegramMessagePayload).text).toContain(
-      'Window expired',
+    const texts = recorder.requests.map(
+      (request) => (request.payload as TelegramMessagePayload).text,
     );
+    expect(texts).toEqual(['alpha-alpha\n\nbeta-beta', 'gamma-gamma']);
   });
 
-  it('keeps dedup state isolated per target', async () => {
+  it('sends error records right away after flushing the pending batch', async () => {
     const recorder = createRecorder();
     const { stream } = createTransport(
       {
-        dedupWindowMs: 1000,
+        batchWindowMs: 60_000,
         minDelayBetweenMessages: 0,
-        chatId: ['chat_A', 'chat_B'],
-        send: recorder.send,
+        formatMessage: ({ log }) => ({ text: String(log.msg) }),
       },
       recorder,
     );
 
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Target isolated', time: 1700000000000 })}\n`);
-    stream.end();
-
-    await flush();
-    await flush();
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Info before' })}\n`);
+    stream.write(`${JSON.stringify({ level: 50, msg: 'Failure' })}\n`);
 
-    expect(recorder.requests).toHaveLength(2);
-    expect((recorder.requests[0].payload as TelegramMessagePayload).chat_id).toBe('chat_A');
-    expect((recorder.requests[1].payload as TelegramMessagePayload).chat_id).toBe('chat_B');
+    await vi.waitFor(() => {
+      expect(recorder.requests).toHaveLength(2);
+    });
+    const texts = recorder.requests.map(
+      (request) => (request.payload as TelegramMessagePayload).text,
+    );
+    expect(texts).toEqual(['Info before', 'Failure']);
+    stream.end();
   });
 
-  it('suppresses duplicate text logs after successful retry delivery', async () => {
-    vi.useFakeTimers();
-    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
-
+  it('drops repeated records inside one batch when dedup is enabled', async () => {
     const recorder = createRecorder();
-    const originalSend = recorder.send;
-    let shouldFailOnce = true;
-    recorder.send = vi.fn(async (payload, method) => {
-      if (shouldFailOnce) {
-        shouldFailOnce = false;
-        throw new TelegramDeliveryError('Retry once', { ok: false, error_code: 500 }, 500);
-      }
-      await originalSend(payload, method);
-    });
-
     const { stream } = createTransport(
       {
-        dedupWindowMs: 1000,
+        batchWindowMs: 1000,
+        dedupWindowMs: 60_000,
         minDelayBetweenMessages: 0,
-        retryAttempts: 2,
-        retryInitialDelay: 200,
-        retryBackoffFactor: 1,
-        retryMaxDelay: 200,
+        formatMessage: ({ log }) => ({ text: String(log.msg) }),
       },
       recorder,
     );
 
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Retry dedup', time: 1700000000000 })}\n`);
-    stream.write(`${JSON.stringify({ level: 30, msg: 'Retry dedup', time: 1700000001000 })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'same' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'same' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'other' })}\n`);
+    await flushLogger(stream);
+
+    const payload = expectSingleRequest(recorder).payload as TelegramMessagePayload;
+    expect(payload.text).toBe('same\n\nother');
+    expect(stream.getStats().deduplicated).toBe(1);
     stream.end();
+  });
 
-    await flush();
-    await flush();
+  it('sends pending batch before a media message to the same target', async () => {
+    const recorder = createRecorder();
+    const { stream } = createTransport(
+      {
+        batchWindowMs: 60_000,
+        minDelayBetweenMessages: 0,
+        formatMessage: createMediaFormatter(),
+      },
+      recorder,
+    );
 
-    await vi.advanceTimersByTimeAsync(200);
-    await vi.runOnlyPendingTimersAsync();
-    await flush();
-    await flush();
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Before photo' })}\n`);
+    stream.write(
+      `${JSON.stringify({
+        level: 30,
+        msg: 'Photo',
+        messageType: 'photo',
+        mediaUrl: 'https://example.com/a.jpg',
+      })}\n`,
+    );
+    await flushLogger(stream);
 
-    expect(recorder.send).toHaveBeenCalledTimes(2);
-    expect(recorder.requests).toHaveLength(1);
-    expect((recorder.requests[0].payload as TelegramMessagePayload).text).toContain('Retry dedup');
+    expect(recorder.requests.map((request) => request.method)).toEqual([
+      'sendMessage',
+      'sendPhoto',
+    ]);
+    expect((recorder.requests[0].payload as TelegramMessagePayload).text).toContain('Before photo');
   });
 
   it('drops the oldest queued log when overflowStrategy=dropOldest', async () => {
@@ -1361,6 +2657,100 @@ describe('pino-telegram transport', () => {
     expect(deliveredTexts.join('\n')).not.toContain('Third queued');
   });
 
+  it('delivers fatal logs ahead of the info backlog and never drops them', async () => {
+    const recorder = createRecorder();
+    const controlledSend = createControlledSend(recorder);
+    const onDeliveryError = vi.fn();
+    const { stream } = createTransport(
+      {
+        send: controlledSend.send,
+        onDeliveryError,
+        minDelayBetweenMessages: 0,
+        acknowledgeOnEnqueue: true,
+        maxQueueSize: 2,
+        overflowStrategy: 'dropOldest',
+      },
+      recorder,
+    );
+
+    for (let index = 1; index <= 5; index += 1) {
+      await writeLog(stream, { level: 30, msg: `Info ${index}` });
+    }
+    await writeLog(stream, { level: 60, msg: 'Fatal' });
+
+    await vi.waitFor(() => {
+      expect(controlledSend.send).toHaveBeenCalledTimes(1);
+      expect(onDeliveryError).toHaveBeenCalledTimes(3);
+    });
+
+    const flushed = flushLogger(stream);
+    for (let call = 2; call <= 4; call += 1) {
+      await controlledSend.releaseNext();
+      await vi.waitFor(() => {
+        expect(controlledSend.send).toHaveBeenCalledTimes(call);
+      });
+    }
+    await controlledSend.releaseNext();
+    await flushed;
+
+    const deliveredTexts = recorder.requests.map((request) =>
+      stripHtmlTags((request.payload as TelegramMessagePayload).text),
+    );
+    expect(deliveredTexts).toHaveLength(4);
+    expect(deliveredTexts[0]).toContain('Info 1');
+    expect(deliveredTexts[1]).toContain('Fatal');
+    expect(deliveredTexts[2]).toContain('Info 5');
+    expect(deliveredTexts[3]).toMatch(/^⚠️ 3 log messages dropped \(3 INFO\)/);
+  });
+
+  it('sends a summary of dropped records once the target queue drains', async () => {
+    const recorder = createRecorder();
+    const controlledSend = createControlledSend(recorder);
+    const { stream } = createTransport(
+      {
+        send: controlledSend.send,
+        onDeliveryError: vi.fn(),
+        minDelayBetweenMessages: 0,
+        acknowledgeOnEnqueue: true,
+        maxQueueSize: 1,
+        overflowStrategy: 'dropOldest',
+      },
+      recorder,
+    );
+
+    await writeLog(stream, { level: 30, msg: 'In flight' });
+    await writeLog(stream, { level: 30, msg: 'Dropped info' });
+    await writeLog(stream, { level: 40, msg: 'Dropped warn' });
+    await writeLog(stream, { level: 30, msg: 'Another dropped info' });
+    await writeLog(stream, { level: 40, msg: 'Last warn' });
+
+    await vi.waitFor(() => {
+      expect(stream.getDropStats().total).toBe(3);
+    });
+    expect(stream.getDropStats()).toMatchObject({
+      byLevel: { INFO: 2, WARN: 1 },
+      byTarget: { '111:': 3 },
+    });
+
+    for (let call = 2; call <= 3; call += 1) {
+      await controlledSend.releaseNext();
+      await vi.waitFor(() => {
+        expect(controlledSend.send).toHaveBeenCalledTimes(call);
+      });
+    }
+    await controlledSend.releaseNext();
+    await flushLogger(stream);
+
+    const deliveredTexts = recorder.requests.map(
+      (request) => (request.payload as TelegramMessagePayload).text,
+    );
+    expect(deliveredTexts).toHaveLength(3);
+    expect(deliveredTexts[1]).toContain('Last warn');
+    expect(deliveredTexts[2]).toMatch(
+      /^⚠️ 3 log messages dropped \(2 INFO, 1 WARN\) between \S+ and \S+$/,
+    );
+  });
+
   it('waits for free queue space when overflowStrategy=block', async () => {
     const recorder = createRecorder();
     const controlledSend = createControlledSend(recorder);
@@ -1408,6 +2798,75 @@ describe('pino-telegram transport', () => {
     expect(deliveredTexts[2]).toContain('Third queued');
   });
 
+  it('reports delivery counters, retries and latency through getStats and onStats', async () => {
+    vi.useFakeTimers();
+    const recorder = createRecorder();
+    const originalSend = recorder.send;
+    let attempts = 0;
+    recorder.send = vi.fn(async (payload, method) => {
+      attempts += 1;
+      if (attempts === 1) {
+        throw new TelegramDeliveryError(
+          'Too many requests',
+          { ok: false, error_code: 429, parameters: { retry_after: 0 } },
+          429,
+        );
+      }
+      await originalSend(payload, method);
+    });
+    const onStats = vi.fn();
+
+    const { stream } = createTransport(
+      {
+        minDelayBetweenMessages: 0,
+        retryAttempts: 2,
+        retryInitialDelay: 0,
+        dedupWindowMs: 60_000,
+        sampleRates: { warn: 0 },
+        onStats,
+        statsIntervalMs: 5000,
+      },
+      recorder,
+    );
+
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Counted' })}\n`);
+    stream.write(`${JSON.stringify({ level: 30, msg: 'Counted' })}\n`);
+    stream.write(`${JSON.stringify({ level: 40, msg: 'Sampled out' })}\n`);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(onStats).toHaveBeenCalledTimes(1);
+    const stats = stream.getStats();
+    expect(onStats.mock.calls[0][0]).toEqual(stats);
+    expect(stats).toMatchObject({
+      queueDepth: 0,
+      sent: 1,
+      failed: 0,
+      retried: 1,
+      deduplicated: 1,
+      suppressed: 1,
+      dropped: 0,
+      rateLimited: 1,
+      targets: {
+        '111:': {
+          queueDepth: 0,
+          sent: 1,
+          failed: 0,
+          retried: 1,
+          deduplicated: 1,
+          suppressed: 1,
+          dropped: 0,
+        },
+      },
+      methods: { sendMessage: { sent: 1, failed: 0, retried: 1, rateLimited: 1 } },
+      latency: { count: 1 },
+      circuitBreaker: { state: 'closed' },
+    });
+
+    stream.end();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onStats).toHaveBeenCalledTimes(1);
+  });
+
   it('retries on 429 responses with retry_after hint', async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
@@ -1784,4 +3243,266 @@ describe('pino-telegram transport', () => {
     expect(recorder.requests).toHaveLength(1);
     stream.end();
   });
+  it('сохраняет запрос в spool при временной ошибке и переотправляет его после перезапуска', async () => {
+    const spoolDir = await mkdtemp(join(tmpdir(), 'pino-telegram-spool-'));
+    try {
+      const offlineSend = vi.fn(async () => {
+        throw new TelegramDeliveryError('Ошибка сети Telegram (sendPhoto): ECONNRESET');
+      });
+      const onDeliveryError = vi.fn();
+      const offline = telegramTransport({
+        botToken: TOKEN,
+        chatId: 111,
+        send: offlineSend,
+        onDeliveryError,
+        retryAttempts: 1,
+        minDelayBetweenMessages: 0,
+        spoolDir,
+        formatMessage: () => ({
+          text: 'Снимок экрана',
+          method: 'sendPhoto',
+          extra: { photo: { data: Uint8Array.from([1, 2, 3]), filename: 'screen.png' } },
+        }),
+      });
+
+      offline.write(`${JSON.stringify({ level: 50, msg: 'Offline' })}\n`);
+      await flushLogger(offline);
+      offline.end();
+
+      expect(offlineSend).toHaveBeenCalledTimes(1);
+      expect(onDeliveryError).toHaveBeenCalledTimes(1);
+      expect(await readdir(spoolDir)).toHaveLength(1);
+
+      const recorder = createRecorder();
+      const online = createTransport({ spoolDir, minDelayBetweenMessages: 0 }, recorder).stream;
+      await flushLogger(online);
+      online.end();
+
+      const request = expectSingleRequest(recorder);
+      expect(request.method).toBe('sendPhoto');
+      const photo = (request.payload as TelegramPhotoPayload).photo as TelegramInputFile;
+      expect(Array.from(photo.data as Uint8Array)).toEqual([1, 2, 3]);
+      expect(photo.filename).toBe('screen.png');
+      expect(await readdir(spoolDir)).toHaveLength(0);
+    } finally {
+      await rm(spoolDir, { recursive: true, force: true });
+    }
+  });
+
+  it('переотправляет spool по порядку после восстановления связи', async () => {
+    const spoolDir = await mkdtemp(join(tmpdir(), 'pino-telegram-spool-'));
+    try {
+      const recorder = createRecorder();
+      const originalSend = recorder.send;
+      let isOnline = false;
+      recorder.send = vi.fn(async (payload, method) => {
+        if (!isOnline) {
+          throw new TelegramDeliveryError('Fail', { ok: false, error_code: 502 }, 502);
+        }
+        await originalSend(payload, method);
+      });
+
+      const { stream } = createTransport(
+        {
+          spoolDir,
+          retryAttempts: 1,
+          minDelayBetweenMessages: 0,
+          onDeliveryError: vi.fn(),
+          formatMessage: ({ log }) => ({ text: String(log.msg) }),
+        },
+        recorder,
+      );
+
+      stream.write(`${JSON.stringify({ level: 30, msg: 'first' })}\n`);
+      stream.write(`${JSON.stringify({ level: 30, msg: 'second' })}\n`);
+      await flushLogger(stream);
+      expect(await readdir(spoolDir)).toHaveLength(2);
+
+      isOnline = true;
+      stream.write(`${JSON.stringify({ level: 30, msg: 'third' })}\n`);
+      await flushLogger(stream);
+      stream.end();
+
+      expect(
+        recorder.requests.map((request) => (request.payload as TelegramMessagePayload).text),
+      ).toEqual(['third', 'first', 'second']);
+      expect(await readdir(spoolDir)).toHaveLength(0);
+    } finally {
+      await rm(spoolDir, { recursive: true, force: true });
+    }
+  });
+
+  it('не пишет в spool запросы, которые доставлены с первой попытки', async () => {
+    const spoolDir = await mkdtemp(join(tmpdir(), 'pino-telegram-spool-'));
+    try {
+      const recorder = createRecorder();
+      const originalSend = recorder.send;
+      const spooledDuringSend: number[] = [];
+      recorder.send = vi.fn(async (payload, method) => {
+        spooledDuringSend.push((await readdir(spoolDir)).length);
+        await originalSend(payload, method);
+      });
+
+      const { stream } = createTransport({ spoolDir, minDelayBetweenMessages: 0 }, recorder);
+
+      stream.write(`${JSON.stringify({ level: 30, msg: 'first' })}\n`);
+      stream.write(`${JSON.stringify({ level: 30, msg: 'second' })}\n`);
+      await flushLogger(stream);
+      stream.end();
+
+      expect(spooledDuringSend).toEqual([0, 0]);
+      expect(await readdir(spoolDir)).toHaveLength(0);
+    } finally {
+      await rm(spoolDir, { recursive: true, force: true });
+    }
+  });
+
+  it('переотправляет spool по таймеру, даже если новых логов нет', async () => {
+    const spoolDir = await mkdtemp(join(tmpdir(), 'pino-telegram-spool-'));
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const recorder = createRecorder();
+      const originalSend = recorder.send;
+      let isOnline = false;
+      recorder.send = vi.fn(async (payload, method) => {
+        if (!isOnline) {
+          throw new TelegramDeliveryError('Fail', { ok: false, error_code: 502 }, 502);
+        }
+        await originalSend(payload, method);
+      });
+
+      const { stream } = createTransport(
+        { spoolDir, retryAttempts: 1, minDelayBetweenMessages: 0, onDeliveryError: vi.fn() },
+        recorder,
+      );
+
+      stream.write(`${JSON.stringify({ level: 30, msg: 'offline' })}\n`);
+      await flushLogger(stream);
+      expect(await readdir(spoolDir)).toHaveLength(1);
+
+      isOnline = true;
+      await vi.advanceTimersByTimeAsync(30_000);
+      await flushLogger(stream);
+      stream.end();
+
+      expect(recorder.requests).toHaveLength(1);
+      expect(await readdir(spoolDir)).toHaveLength(0);
+    } finally {
+      vi.useRealTimers();
+      await rm(spoolDir, { recursive: true, force: true });
+    }
+  });
+
+  it('переотправляет spool, когда circuit breaker снова замыкается', async () => {
+    const spoolDir = await mkdtemp(join(tmpdir(), 'pino-telegram-spool-'));
+    try {
+      const recorder = createRecorder();
+      const originalSend = recorder.send;
+      let isOnline = false;
+      recorder.send = vi.fn(async (payload, method) => {
+        if (!isOnline) {
+          throw new TelegramDeliveryError('Fail', { ok: false, error_code: 503 }, 503);
+        }
+        await originalSend(payload, method);
+      });
+
+      const { stream } = createTransport(
+        {
+          spoolDir,
+          retryAttempts: 1,
+          minDelayBetweenMessages: 0,
+          circuitBreakerThreshold: 1,
+          circuitBreakerResetMs: 20,
+          onDeliveryError: vi.fn(),
+          formatMessage: ({ log }) => ({ text: String(log.msg) }),
+        },
+        recorder,
+      );
+
+      stream.write(`${JSON.stringify({ level: 30, msg: 'lost' })}\n`);
+      stream.write(`${JSON.stringify({ level: 30, msg: 'rejected' })}\n`);
+      await flushLogger(stream);
+      expect(recorder.send).toHaveBeenCalledTimes(1);
+      expect(await readdir(spoolDir)).toHaveLength(2);
+
+      isOnline = true;
+      await flush(30);
+      stream.write(`${JSON.stringify({ level: 30, msg: 'probe' })}\n`);
+      await flushLogger(stream);
+      stream.end();
+
+      expect(
+        recorder.requests.map((request) => (request.payload as TelegramMessagePayload).text),
+      ).toEqual(['probe', 'lost', 'rejected']);
+      expect(await readdir(spoolDir)).toHaveLength(0);
+    } finally {
+      await rm(spoolDir, { recursive: true, force: true });
+    }
+  });
+
+  it('не оставляет в spool запросы, отклонённые Telegram окончательно', async () => {
+    const spoolDir = await mkdtemp(join(tmpdir(), 'pino-telegram-spool-'));
+    try {
+      const recorder = createRecorder();
+      recorder.send = vi.fn(async () => {
+        throw new TelegramDeliveryError(
+          'Bad Request: chat not found',
+          { ok: false, error_code: 400, description: 'Bad Request: chat not found' },
+          400,
+        );
+      });
+
+      const { stream } = createTransport(
+        { spoolDir, minDelayBetweenMessages: 0, onDeliveryError: vi.fn() },
+        recorder,
+      );
+
+      stream.write(`${JSON.stringify({ level: 30, msg: 'rejected' })}\n`);
+      await flushLogger(stream);
+      stream.end();
+
+      expect(recorder.send).toHaveBeenCalledTimes(1);
+      expect(await readdir(spoolDir)).toHaveLength(0);
+    } finally {
+      await rm(spoolDir, { recursive: true, force: true });
+    }
+  });
+  it('сообщает о размыкании circuit breaker и отдаёт статистику', async () => {
+    const recorder = createRecorder();
+    recorder.send = vi.fn(async () => {
+      throw new TelegramDeliveryError('Fail', { ok: false, error_code: 503 }, 503);
+    });
+    const onCircuitStateChange = vi.fn();
+    const onDeliveryError = vi.fn();
+
+    const { stream } = createTransport(
+      {
+        circuitBreakerThreshold: 2,
+        circuitBreakerResetMs: 60_000,
+        onCircuitStateChange,
+        onDeliveryError,
+        retryAttempts: 1,
+        minDelayBetweenMessages: 0,
+      },
+      recorder,
+    );
+
+    for (const msg of ['one', 'two', 'three', 'four']) {
+      stream.write(`${JSON.stringify({ level: 50, msg })}\n`);
+    }
+    await flushLogger(stream);
+    stream.end();
+
+    expect(recorder.send).toHaveBeenCalledTimes(2);
+    expect(onCircuitStateChange).toHaveBeenCalledTimes(1);
+    expect(onCircuitStateChange.mock.calls[0].slice(0, 2)).toEqual(['open', 'closed']);
+    expect(
+      onDeliveryError.mock.calls.map(([error]) => (error as TelegramDeliveryError).code),
+    ).toEqual([undefined, undefined, 'CIRCUIT_OPEN', 'CIRCUIT_OPEN']);
+
+    const stats = (
+      stream as unknown as { getCircuitBreakerStats: () => Record<string, unknown> }
+    ).getCircuitBreakerStats();
+    expect(stats).toMatchObject({ state: 'open', rejectedRequests: 2, totalFailures: 2 });
+  });
 });
@@ -1,5 +1,15 @@
 import { describe, expect, it, vi } from 'vitest';
-import { escapeHtml, formatTimestamp, splitHtml, splitText, truncateHtml } from '../src/utils';
+import {
+  escapeHtml,
+  escapeMarkdownV2,
+  formatTimestamp,
+  splitHtml,
+  splitMarkdownV2,
+  splitText,
+  stripMarkup,
+  truncateHtml,
+  truncateMarkdownV2,
+} from '../src/utils';
 
 describe('formatTimestamp', () => {
   it('returns the original string for an invalid date string', () => {
@@ -63,6 +73,81 @@ describe('splitHtml', () => {
       '<b>KL</b>',
     ]);
   });
+
+  it('reopens expandable blockquotes and spoilers with their attributes', () => {
+    expect(splitHtml('<blockquote expandable>12345678</blockquote>', 40)).toEqual([
+      '<blockquote expandable>1234</blockquote>',
+      '<blockquote expandable>5678</blockquote>',
+    ]);
+    expect(splitHtml('<tg-spoiler>ABCDEFGHIJKL</tg-spoiler>', 30)).toEqual([
+      '<tg-spoiler>ABCDE</tg-spoiler>',
+      '<tg-spoiler>FGHIJ</tg-spoiler>',
+      '<tg-spoiler>KL</tg-spoiler>',
+    ]);
+  });
+
+  it('moves opening tags without content to the next part', () => {
+    expect(splitHtml('<b>Ctx</b><blockquote expandable>12345678</blockquote>', 40)).toEqual([
+      '<b>Ctx</b>',
+      '<blockquote expandable>1234</blockquote>',
+      '<blockquote expandable>5678</blockquote>',
+    ]);
+  });
+});
+
+describe('truncateMarkdownV2', () => {
+  it('closes open entities and uses an escaped ellipsis', () => {
+    expect(truncateMarkdownV2('*bold text\\.* more', 12)).toEqual({
+      text: '*bold\\.\\.\\.*',
+      truncated: true,
+    });
+  });
+
+  it('does not split escape sequences at the truncation boundary', () => {
+    expect(truncateMarkdownV2('abc\\!\\!\\!\\!', 8)).toEqual({
+      text: 'ab\\.\\.\\.',
+      truncated: true,
+    });
+  });
+});
+
+describe('splitMarkdownV2', () => {
+  it('closes and reopens code blocks with their language between parts', () => {
+    expect(splitMarkdownV2('```js\nconst a = 1;\nconst b = 2;\n```', 20)).toEqual([
+      '```js\nconst a = 1```',
+      '```js\n;\nconst b =```',
+      '```js\n 2;\n```',
+    ]);
+  });
+
+  it('keeps links intact when splitting', () => {
+    expect(splitMarkdownV2('see [docs](https://t.me/x) and more text', 30)).toEqual([
+      'see [docs](https://t.me/x) and',
+      ' more text',
+    ]);
+  });
+});
+
+describe('escapeMarkdownV2', () => {
+  it('escapes every reserved MarkdownV2 character', () => {
+    expect(escapeMarkdownV2('a_b*c[d](e)~`>#+-=|{}.!\\')).toBe(
+      'a\\_b\\*c\\[d\\]\\(e\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!\\\\',
+    );
+  });
+});
+
+describe('stripMarkup', () => {
+  it('removes HTML tags and decodes entities', () => {
+    expect(stripMarkup('<b>A &lt;b&gt; &amp; &#39;c&#39;</b> <a href="x">link</a>', 'HTML')).toBe(
+      "A <b> & 'c' link",
+    );
+  });
+
+  it('removes MarkdownV2 markers, escapes and link targets', () => {
+    expect(stripMarkup('*Fail \\(x\\.y\\)* see [docs \\#1](https://t.me/x)', 'MarkdownV2')).toBe(
+      'Fail (x.y) see docs #1',
+    );
+  });
 });
 
 describe('escapeHtml', () => {